@@ -1,15 +1,23 @@
 import 'dotenv/config';
 
+const appJson = require('./app.json').expo;
+
+// Host whose https links open in the app; the site must serve
+// /.well-known/apple-app-site-association and /.well-known/assetlinks.json
+const appLinkHost = new URL(process.env.APP_URL || 'https://pastoragenda.com').host;
+
 export default {
   expo: {
     // Load base configuration from app.json
-    ...require('./app.json').expo,
+    ...appJson,
     // Override with environment variables
     extra: {
       // Environment variables accessible via Constants.expoConfig.extra
       API_URL: process.env.API_URL,
       SUPABASE_ANON_KEY: process.env.SUPABASE_ANON_KEY,
+      SUPABASE_URL: process.env.SUPABASE_URL,
       APP_URL: process.env.APP_URL,
+      ALLOWED_ORIGINS: process.env.ALLOWED_ORIGINS,
       eas: {
         projectId: "b7ca9d2c-a3cb-446d-8e6e-6a81b8c4f742"
       }
@@ -17,9 +25,21 @@ export default {
     // iOS specific configuration
     ios: {
       bundleIdentifier: "com.pastoragenda",
+      associatedDomains: [`applinks:${appLinkHost}`],
       infoPlist: {
         ITSAppUsesNonExemptEncryption: false
       }
+    },
+    android: {
+      ...appJson.android,
+      intentFilters: [
+        {
+          action: "VIEW",
+          autoVerify: true,
+          data: [{ scheme: "https", host: appLinkHost }],
+          category: ["BROWSABLE", "DEFAULT"]
+        }
+      ]
     }
   }
 };
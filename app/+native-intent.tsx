@@ -0,0 +1,6 @@
+// Incoming links open inside the WebView (see deepLinkService), so the native
+// router always stays on its single screen instead of showing "not found"
+export function redirectSystemPath({ path }: { path: string; initial: boolean }): string {
+  console.log('Routing system link to the app shell:', path);
+  return '/';
+}
@@ -8,6 +8,7 @@ import { SafeAreaProvider } from 'react-native-safe-area-context';
 import { CustomSplashScreen } from '../src/components/CustomSplashScreen';
 import { TokenNotificationProvider } from '../src/context/TokenNotificationContext';
 import { WebViewReadyProvider } from '../src/context/WebViewReadyContext';
+import { env } from '../src/env';
 
 // Keep the splash screen visible while we fetch resources
 SplashScreen.preventAutoHideAsync();
@@ -61,6 +62,14 @@ export default function RootLayout() {
           <CustomSplashScreen visible={showSplash} />
           <Stack>
             <Stack.Screen name="index" options={{ headerShown: false }} />
+            <Stack.Screen
+              name="notification-settings"
+              options={{
+                title: 'Notifications',
+                headerStyle: { backgroundColor: env.BACKGROUND_COLOR },
+                headerTintColor: env.PRIMARY_COLOR,
+              }}
+            />
             <Stack.Screen name="+not-found" />
           </Stack>
         </WebViewReadyProvider>
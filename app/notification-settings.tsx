@@ -0,0 +1,6 @@
+import React from 'react';
+import NotificationSettingsScreen from '../src/screens/NotificationSettings';
+
+export default function NotificationSettings() {
+  return <NotificationSettingsScreen />;
+}
@@ -0,0 +1,112 @@
+#!/usr/bin/env node
+
+/**
+ * A local stand-in for the Expo Push API, for testing send-notification and
+ * check-push-receipts without real devices. Point the functions at it with
+ * EXPO_PUSH_API_URL=http://host.docker.internal:4000/--/api/v2/push
+ *
+ * The push token decides what happens to a message:
+ *   ExponentPushToken[unregistered]          ticket error DeviceNotRegistered
+ *   ExponentPushToken[receipt-unregistered]  ok ticket, receipt error DeviceNotRegistered
+ *   ExponentPushToken[rate-limited]          MessageRateExceeded the first time, then ok
+ *   ExponentPushToken[too-big]               ok ticket, receipt error MessageTooBig
+ *   anything else                            ok ticket and receipt
+ *
+ * MOCK_EXPO_PORT changes the port; MOCK_EXPO_FAIL_REQUESTS=N answers the first N
+ * send requests with a 503.
+ */
+
+const crypto = require('crypto');
+const http = require('http');
+
+const port = Number(process.env.MOCK_EXPO_PORT) || 4000;
+let failRequests = Number(process.env.MOCK_EXPO_FAIL_REQUESTS) || 0;
+
+// Receipts by ticket id, and how often each token has been sent to
+const receipts = new Map();
+const sendCounts = new Map();
+
+const tokenKind = token => {
+  const match = /^Expo(?:nent)?PushToken\[(.+)\]$/.exec(token || '');
+  return match ? match[1] : null;
+};
+
+const errorResult = (error, message) => ({ status: 'error', message, details: { error } });
+
+const createTicket = message => {
+  const kind = tokenKind(message.to);
+  const count = (sendCounts.get(message.to) || 0) + 1;
+  sendCounts.set(message.to, count);
+
+  if (!kind) {
+    return errorResult('DeviceNotRegistered', `"${message.to}" is not a valid Expo push token`);
+  }
+  if (kind === 'unregistered') {
+    return errorResult('DeviceNotRegistered', `"${message.to}" is not a registered push notification recipient`);
+  }
+  if (kind === 'rate-limited' && count === 1) {
+    return errorResult('MessageRateExceeded', 'Too many messages sent to this device');
+  }
+
+  const id = crypto.randomUUID();
+  if (kind === 'receipt-unregistered') {
+    receipts.set(id, errorResult('DeviceNotRegistered', 'The device cannot receive push notifications anymore'));
+  } else if (kind === 'too-big') {
+    receipts.set(id, errorResult('MessageTooBig', 'The notification was too large'));
+  } else {
+    receipts.set(id, { status: 'ok' });
+  }
+  return { status: 'ok', id };
+};
+
+const sendJson = (res, status, body) => {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+};
+
+const server = http.createServer((req, res) => {
+  let raw = '';
+  req.on('data', chunk => { raw += chunk; });
+  req.on('end', () => {
+    let body;
+    try {
+      body = raw ? JSON.parse(raw) : {};
+    } catch {
+      return sendJson(res, 400, { errors: [{ code: 'VALIDATION_ERROR', message: 'Body is not valid JSON' }] });
+    }
+
+    if (req.method === 'POST' && req.url === '/--/api/v2/push/send') {
+      if (failRequests > 0) {
+        failRequests--;
+        console.log('send: answering with 503');
+        return sendJson(res, 503, { errors: [{ code: 'INTERNAL_SERVER_ERROR', message: 'Simulated outage' }] });
+      }
+
+      const messages = Array.isArray(body) ? body : [body];
+      if (messages.length > 100) {
+        return sendJson(res, 400, { errors: [{ code: 'PUSH_TOO_MANY_NOTIFICATIONS', message: 'At most 100 messages per request' }] });
+      }
+
+      const tickets = messages.map(createTicket);
+      messages.forEach((message, index) => console.log(`send: ${message.to} -> ${JSON.stringify(tickets[index])}`));
+      return sendJson(res, 200, { data: tickets });
+    }
+
+    if (req.method === 'POST' && req.url === '/--/api/v2/push/getReceipts') {
+      const data = {};
+      (body.ids || []).forEach(id => {
+        if (receipts.has(id)) {
+          data[id] = receipts.get(id);
+        }
+      });
+      console.log(`getReceipts: ${Object.keys(data).length} of ${(body.ids || []).length} found`);
+      return sendJson(res, 200, { data });
+    }
+
+    sendJson(res, 404, { errors: [{ code: 'NOT_FOUND', message: `${req.method} ${req.url} is not part of the push API` }] });
+  });
+});
+
+server.listen(port, () => {
+  console.log(`📮 Mock Expo Push API listening on http://localhost:${port}/--/api/v2/push`);
+});
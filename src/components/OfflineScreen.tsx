@@ -0,0 +1,85 @@
+import React, { useEffect, useState } from 'react';
+import { ScrollView, Text, TouchableOpacity, View } from 'react-native';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import { downloadManagerService } from '../services/downloadManagerService';
+import { fileDownloadService } from '../services/fileDownloadService';
+import { PageSnapshotInfo, pageCacheService } from '../services/pageCacheService';
+import { commonStyles, offlineStyles } from './styles';
+
+interface DownloadedFile {
+  name: string;
+  uri: string;
+  size: number;
+  modificationTime: number;
+}
+
+interface OfflineScreenProps {
+  onRetry: () => void;
+  onOpenSnapshot: (url: string) => void;
+}
+
+const formatSize = (bytes: number): string => {
+  if (bytes < 1024 * 1024) {
+    return `${Math.max(1, Math.round(bytes / 1024))} KB`;
+  }
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+// Shown instead of the WebView while the device has no connection
+export const OfflineScreen: React.FC<OfflineScreenProps> = ({ onRetry, onOpenSnapshot }) => {
+  const [snapshots, setSnapshots] = useState<PageSnapshotInfo[]>([]);
+  const [files, setFiles] = useState<DownloadedFile[]>([]);
+  const insets = useSafeAreaInsets();
+
+  useEffect(() => {
+    pageCacheService.listSnapshots().then(setSnapshots);
+    downloadManagerService.listFiles().then(result => setFiles(result.files || []));
+  }, []);
+
+  const openFile = async (file: DownloadedFile) => {
+    const result = await fileDownloadService.shareFile(file.uri, { dialogTitle: file.name });
+    if (!result.success) {
+      console.warn('Could not open downloaded file:', result.error);
+    }
+  };
+
+  return (
+    <ScrollView
+      style={offlineStyles.container}
+      contentContainerStyle={{ paddingTop: insets.top, paddingBottom: insets.bottom }}
+    >
+      <View style={offlineStyles.header}>
+        <Text style={offlineStyles.title}>You are offline</Text>
+        <Text style={offlineStyles.message}>
+          Pastor Agenda will reload as soon as you are back online. Until then you can open the
+          pages and files saved on this device.
+        </Text>
+        <TouchableOpacity style={commonStyles.button} onPress={onRetry}>
+          <Text style={commonStyles.buttonText}>Try Again</Text>
+        </TouchableOpacity>
+      </View>
+
+      <Text style={offlineStyles.sectionTitle}>Saved pages</Text>
+      {snapshots.length === 0 && (
+        <Text style={offlineStyles.emptyText}>No pages have been saved yet.</Text>
+      )}
+      {snapshots.map(snapshot => (
+        <TouchableOpacity key={snapshot.url} style={offlineStyles.item} onPress={() => onOpenSnapshot(snapshot.url)}>
+          <Text style={offlineStyles.itemTitle} numberOfLines={1}>{snapshot.title || snapshot.url}</Text>
+          <Text style={offlineStyles.itemSubtitle}>Saved {new Date(snapshot.savedAt).toLocaleString()}</Text>
+        </TouchableOpacity>
+      ))}
+
+      <Text style={offlineStyles.sectionTitle}>Downloads</Text>
+      {files.length === 0 && (
+        <Text style={offlineStyles.emptyText}>No downloaded files.</Text>
+      )}
+      {files.map(file => (
+        <TouchableOpacity key={file.uri} style={offlineStyles.item} onPress={() => openFile(file)}>
+          <Text style={offlineStyles.itemTitle} numberOfLines={1}>{file.name}</Text>
+          <Text style={offlineStyles.itemSubtitle}>{formatSize(file.size)}</Text>
+        </TouchableOpacity>
+      ))}
+    </ScrollView>
+  );
+};
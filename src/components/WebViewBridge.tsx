@@ -1,34 +1,186 @@
-import * as Audio from 'expo-av';
-import * as Camera from 'expo-camera';
 import * as DocumentPicker from 'expo-document-picker';
 import * as FileSystem from 'expo-file-system';
-import * as ImagePicker from 'expo-image-picker';
 import * as Location from 'expo-location';
 import * as MediaLibrary from 'expo-media-library';
+import { router } from 'expo-router';
 import * as Sharing from 'expo-sharing';
 import React from 'react';
 import { Alert, Platform, Vibration } from 'react-native';
 import { WebView } from 'react-native-webview';
 import { env } from '../env';
+import { AuthSession, authSessionService } from '../services/authSessionService';
+import { downloadManagerService } from '../services/downloadManagerService';
+import { ExternalLinkResult, externalLinkService } from '../services/externalLinkService';
+import { fileDownloadService } from '../services/fileDownloadService';
+import {
+  AudioRecordingStatus,
+  LocationResult,
+  MediaPickResult,
+  MediaResult,
+  mediaService,
+  PickMediaOptions,
+  ProcessedImageResult,
+} from '../services/mediaService';
+import { notificationPreferencesService } from '../services/notificationPreferencesService';
+import { originPolicyService } from '../services/originPolicyService';
+import { outboxService } from '../services/outboxService';
+import { pageCacheService } from '../services/pageCacheService';
+import { reminderService } from '../services/reminderService';
+import { ApiResponse, requestService } from '../services/requests';
+import { uploadManagerService } from '../services/uploadManagerService';
+import {
+  BRIDGE_METHODS,
+  AudioRecordingRequest,
+  AuthSessionChangedEvent,
+  BRIDGE_PROTOCOL_VERSION,
+  BridgeCallContext,
+  BridgeErrorData,
+  BridgeEventMap,
+  BridgeEventType,
+  BridgeMessage,
+  BridgeRequest,
+  BridgeRequestType,
+  BridgeResponse,
+  BridgeResult,
+  CancelRequest,
+  CancelResult,
+  CaptureOptions,
+  DeviceInfoResult,
+  DocumentPickResult,
+  DownloadFileRequest,
+  DownloadFileResult,
+  GetNotificationPreferencesResult,
+  ListDownloadsResult,
+  ListOutboxResult,
+  ListRemindersResult,
+  LogoutResult,
+  HandshakeRequest,
+  HandshakeResult,
+  isProtocolVersionSupported,
+  MIN_SUPPORTED_PROTOCOL_VERSION,
+  NotificationPresentationRequest,
+  OpenUrlRequest,
+  OutgoingBridgeMessage,
+  parseBridgeMessage,
+  PermissionsRequest,
+  PermissionsResult,
+  ProcessImageRequest,
+  PushTokenResult,
+  QueueRequestRequest,
+  READ_FILE_CHUNK_SIZE,
+  ReadFileRequest,
+  ReadFileResult,
+  redactBridgeMessage,
+  SaveToGalleryRequest,
+  SaveToGalleryResult,
+  ShareFileRequest,
+  ShowAlertRequest,
+  UploadFileRequest,
+  UploadFileResult,
+  UploadFilesRequest,
+  UserInfoRequest,
+  UserInfoResult,
+  VibrateRequest,
+} from './bridgeProtocol';
+
+export type { BridgeMessage } from './bridgeProtocol';
 
 export interface WebViewBridgeProps {
   webViewRef: React.RefObject<WebView>;
   onMessage?: (message: any) => void;
 }
 
-export interface BridgeMessage {
-  type: string;
-  data?: any;
-  id?: string;
-}
+type BridgeHandler<K extends BridgeRequestType> =
+  (data: BridgeRequest<K>, context: BridgeCallContext) => Promise<BridgeResponse<K>>;
+
+type BridgeHandlers = { [K in BridgeRequestType]: BridgeHandler<K> };
+
+type ProtocolState = 'pending' | 'accepted' | 'rejected';
+
+// Length of a RECORD_AUDIO clip when the web app does not set maxDurationMs
+const DEFAULT_CLIP_DURATION = 10 * 1000;
+
+// The page may only read, upload, save or share files inside the app's own sandbox,
+// i.e. ones a bridge call produced (captures, picks, recordings, downloads). The
+// file system decodes %-escapes, so '..' is looked for in the decoded path
+const isAppFileUri = (uri: string): boolean => {
+  let decoded: string;
+  try {
+    decoded = decodeURIComponent(uri);
+  } catch {
+    return false;
+  }
+  return [FileSystem.documentDirectory, FileSystem.cacheDirectory].some(dir => !!dir && uri.startsWith(dir)) &&
+    !decoded.split('/').includes('..');
+};
+
+const getErrorMessage = (error: unknown): string =>
+  error instanceof Error ? error.message : 'Unknown error';
 
 export class WebViewBridge {
   private webViewRef: React.RefObject<WebView | null>;
   private onMessage?: (message: any) => void;
+  private nonce: string;
   private messageId = 0;
-
-  constructor(webViewRef: React.RefObject<WebView | null>, onMessage?: (message: any) => void) {
+  private protocolState: ProtocolState = 'pending';
+  // Calls still being handled, keyed by message id, so the web app can cancel them
+  private inFlight = new Map<string, AbortController>();
+  // Events for the page that is about to load, sent once it completes the handshake
+  private pendingEvents: OutgoingBridgeMessage[] = [];
+
+  private handlers: BridgeHandlers = {
+    BRIDGE_READY: (data) => this.handleBridgeReady(data),
+    REQUEST_PERMISSIONS: (data) => this.handleRequestPermissions(data),
+    TAKE_PHOTO: (data) => this.handleTakePhoto(data),
+    PICK_IMAGE: (data) => this.handlePickImage(data),
+    RECORD_VIDEO: (data) => mediaService.recordVideo(data),
+    RECORD_AUDIO: (data, context) => this.handleRecordAudio(data, context),
+    START_AUDIO_RECORDING: (data) => this.handleStartAudioRecording(data),
+    PAUSE_AUDIO_RECORDING: () => mediaService.pauseAudioRecording(),
+    RESUME_AUDIO_RECORDING: () => mediaService.resumeAudioRecording(),
+    STOP_AUDIO_RECORDING: () => mediaService.stopAudioRecording(),
+    CANCEL_AUDIO_RECORDING: () => mediaService.cancelAudioRecording(),
+    PROCESS_IMAGE: (data) => this.handleProcessImage(data),
+    GET_LOCATION: () => this.handleGetLocation(),
+    DOWNLOAD_FILE: (data, context) => this.handleDownloadFile(data, context),
+    PAUSE_DOWNLOAD: (data) => downloadManagerService.pause(data.downloadId),
+    RESUME_DOWNLOAD: (data) => downloadManagerService.resume(data.downloadId),
+    CANCEL_DOWNLOAD: (data) => downloadManagerService.cancel(data.downloadId),
+    LIST_DOWNLOADS: () => this.handleListDownloads(),
+    SAVE_TO_GALLERY: (data) => this.handleSaveToGallery(data),
+    READ_FILE: (data) => this.handleReadFile(data),
+    UPLOAD_FILE: (data, context) => this.handleUploadFile(data, context),
+    UPLOAD_FILES: (data, context) => this.handleUploadFiles(data, context),
+    PAUSE_UPLOAD: (data) => uploadManagerService.pause(data.uploadId),
+    RESUME_UPLOAD: (data) => uploadManagerService.resume(data.uploadId),
+    CANCEL_UPLOAD: (data) => uploadManagerService.cancel(data.uploadId),
+    LIST_UPLOADS: async () => ({ success: true, uploads: await uploadManagerService.getUploads() }),
+    SHARE_FILE: (data) => this.handleShareFile(data),
+    PICK_DOCUMENT: () => this.handlePickDocument(),
+    VIBRATE: (data) => this.handleVibrate(data),
+    SHOW_ALERT: (data) => this.handleShowAlert(data),
+    GET_DEVICE_INFO: () => this.handleGetDeviceInfo(),
+    UPDATE_USER_INFO: (data) => this.handleUpdateUserInfo(data),
+    USER_AUTH: (data) => this.handleUpdateUserInfo(data),
+    USER_LOGOUT: () => this.handleUserLogout(),
+    OPEN_URL: (data) => this.handleOpenUrl(data),
+    GET_PUSH_TOKEN: () => this.handleGetPushToken(),
+    SET_NOTIFICATION_PRESENTATION: (data) => this.handleSetNotificationPresentation(data),
+    SCHEDULE_REMINDER: (data) => reminderService.schedule(data),
+    CANCEL_REMINDER: (data) => reminderService.cancel(data.key),
+    LIST_SCHEDULED_REMINDERS: () => this.handleListReminders(),
+    GET_NOTIFICATION_PREFERENCES: () => this.handleGetNotificationPreferences(),
+    UPDATE_NOTIFICATION_PREFERENCES: (data) => notificationPreferencesService.update(data),
+    OPEN_NOTIFICATION_SETTINGS: () => this.handleOpenNotificationSettings(),
+    SAVE_PAGE_SNAPSHOT: (data) => pageCacheService.saveSnapshot(data.url, data.title || '', data.html),
+    QUEUE_REQUEST: (data) => this.handleQueueRequest(data),
+    LIST_OUTBOX: () => this.handleListOutbox(),
+    CANCEL_REQUEST: (data) => this.handleCancelRequest(data),
+  };
+
+  constructor(webViewRef: React.RefObject<WebView | null>, nonce: string, onMessage?: (message: any) => void) {
     this.webViewRef = webViewRef;
+    this.nonce = nonce;
     this.onMessage = onMessage;
   }
 
@@ -36,414 +188,446 @@ export class WebViewBridge {
     return `msg_${++this.messageId}_${Date.now()}`;
   }
 
-  public sendToWebView(message: BridgeMessage) {
+  // Delivers the message to the page as a window message event, which the
+  // injected ReactNativeBridge client routes to the pending call or listeners
+  public sendToWebView(message: OutgoingBridgeMessage) {
     if (this.webViewRef.current) {
       const script = `
-        window.ReactNativeWebView.postMessage(${JSON.stringify(message)});
+        (function() {
+          var data = ${JSON.stringify(JSON.stringify(message))};
+          window.dispatchEvent(new MessageEvent('message', { data: data }));
+        })();
         true;
       `;
       this.webViewRef.current.injectJavaScript(script);
     }
   }
 
-  private async requestPermissions(permissions: string[]): Promise<boolean> {
+  public sendEvent<K extends BridgeEventType>(type: K, data: BridgeEventMap[K]) {
+    this.sendToWebView({ type, data, id: this.generateMessageId() });
+  }
+
+  // For events that follow a navigation: the current page would unload before handling them
+  public sendEventAfterNavigation<K extends BridgeEventType>(type: K, data: BridgeEventMap[K]) {
+    this.pendingEvents.push({ type, data, id: this.generateMessageId() });
+  }
+
+  // Hands natively refreshed tokens to the web app, see AuthSessionChangedEvent
+  public sendAuthSession(session: AuthSession | null, reason: AuthSessionChangedEvent['reason']) {
+    this.sendEvent('AUTH_SESSION_CHANGED', {
+      reason,
+      session: session && {
+        accessToken: session.accessToken,
+        refreshToken: session.refreshToken,
+        expiresAt: session.expiresAt ? Math.floor(session.expiresAt / 1000) : undefined,
+        userId: session.userId,
+        userEmail: session.userEmail,
+      },
+    });
+  }
+
+  private sendError(error: BridgeErrorData, id?: string) {
+    this.sendToWebView({ type: 'ERROR', data: error, id });
+  }
+
+  // sourceUrl is the URL of the page that posted the message
+  public async handleMessage(rawMessage: unknown, sourceUrl?: string): Promise<void> {
+    console.log('Bridge handling message:', redactBridgeMessage(rawMessage));
+
+    // Pages outside the allow-list, or scripts that never received the
+    // session nonce, get no reply at all
+    if (!originPolicyService.isAllowedUrl(sourceUrl)) {
+      console.warn('Dropped bridge message from untrusted origin:', sourceUrl);
+      return;
+    }
+
+    // Checked before the message is parsed, so malformed or unknown messages from
+    // scripts without the nonce get no ERROR reply either
+    const envelope = (rawMessage && typeof rawMessage === 'object' ? rawMessage : {}) as { nonce?: unknown; type?: unknown };
+    if (envelope.nonce !== this.nonce) {
+      console.warn('Dropped bridge message with missing or invalid nonce:', envelope.type);
+      return;
+    }
+
+    const parsed = parseBridgeMessage(rawMessage);
+    if (!parsed.ok) {
+      console.warn('Rejected bridge message:', parsed.error.error);
+      this.sendError(parsed.error, parsed.id);
+      return;
+    }
+
+    const { message } = parsed;
+    if (this.protocolState === 'rejected' && message.type !== 'BRIDGE_READY') {
+      this.sendError({
+        error: `Web app bridge protocol is not supported (expected ${MIN_SUPPORTED_PROTOCOL_VERSION}-${BRIDGE_PROTOCOL_VERSION})`,
+        type: message.type,
+        code: 'INCOMPATIBLE_PROTOCOL',
+      }, message.id);
+      return;
+    }
+
     try {
-      const results = await Promise.all(
-        permissions.map(async (permission) => {
-          switch (permission) {
-            case 'camera':
-              const cameraStatus = await Camera.requestCameraPermissionsAsync();
-              return cameraStatus.status === 'granted';
-            case 'microphone':
-              const micStatus = await Audio.requestPermissionsAsync();
-              return micStatus.status === 'granted';
-            case 'location':
-              const locationStatus = await Location.requestForegroundPermissionsAsync();
-              return locationStatus.status === 'granted';
-            case 'media_library':
-              const mediaStatus = await MediaLibrary.requestPermissionsAsync();
-              return mediaStatus.status === 'granted';
-            default:
-              return false;
-          }
-        })
-      );
-      return results.every(result => result);
+      await this.dispatch(message);
     } catch (error) {
-      console.error('Error requesting permissions:', error);
-      return false;
+      console.error('Error handling message:', error);
+      this.sendError({ error: getErrorMessage(error), type: message.type, code: 'HANDLER_ERROR' }, message.id);
     }
   }
 
-  public async handleMessage(message: BridgeMessage): Promise<void> {
-    console.log('Bridge handling message:', message);
+  private async dispatch<K extends BridgeRequestType>(message: BridgeMessage<K>): Promise<void> {
+    const spec = BRIDGE_METHODS[message.type];
+    const handler = this.handlers[message.type] as BridgeHandler<K>;
+    const controller = new AbortController();
+    if (message.id) {
+      this.inFlight.set(message.id, controller);
+    }
 
+    let result: BridgeResponse<K>;
     try {
-      switch (message.type) {
-        case 'REQUEST_PERMISSIONS':
-          await this.handleRequestPermissions(message.data);
-          break;
-        case 'TAKE_PHOTO':
-          await this.handleTakePhoto(message.data);
-          break;
-        case 'PICK_IMAGE':
-          await this.handlePickImage(message.data);
-          break;
-        case 'RECORD_AUDIO':
-          await this.handleRecordAudio(message.data);
-          break;
-        case 'GET_LOCATION':
-          await this.handleGetLocation(message.data);
-          break;
-        case 'DOWNLOAD_FILE':
-          await this.handleDownloadFile(message.data);
-          break;
-        case 'SAVE_TO_GALLERY':
-          await this.handleSaveToGallery(message.data);
-          break;
-        case 'SHARE_FILE':
-          await this.handleShareFile(message.data);
-          break;
-        case 'PICK_DOCUMENT':
-          await this.handlePickDocument(message.data);
-          break;
-        case 'VIBRATE':
-          await this.handleVibrate(message.data);
-          break;
-        case 'SHOW_ALERT':
-          await this.handleShowAlert(message.data);
-          break;
-        case 'GET_DEVICE_INFO':
-          await this.handleGetDeviceInfo(message.data);
-          break;
-        case 'UPDATE_USER_INFO':
-          await this.handleUpdateUserInfo(message.data);
-          break;
-        case 'OPEN_URL':
-          await this.handleOpenUrl(message.data);
-          break;
-        default:
-          console.warn('Unknown message type:', message.type);
-          this.sendToWebView({
-            type: 'ERROR',
-            data: { error: 'Unknown message type', type: message.type },
-            id: message.id
-          });
+      result = await handler(message.data, { id: message.id, signal: controller.signal });
+    } finally {
+      if (message.id) {
+        this.inFlight.delete(message.id);
       }
-    } catch (error) {
-      console.error('Error handling message:', error);
-      this.sendToWebView({
-        type: 'ERROR',
-        data: { error: error.message, type: message.type },
-        id: message.id
-      });
     }
-  }
 
-  private async handleRequestPermissions(data: any) {
-    const { permissions, id } = data;
-    const granted = await this.requestPermissions(permissions);
-    
+    // The web app already settled a cancelled call, so there is nobody to reply to
+    if (controller.signal.aborted) {
+      return;
+    }
+
+    const failed = spec.failureType && (result as Partial<BridgeResult>).success === false;
+
     this.sendToWebView({
-      type: 'PERMISSIONS_RESULT',
-      data: { granted, permissions },
-      id
+      type: failed ? spec.failureType! : spec.responseType,
+      data: result,
+      id: message.id,
+    });
+  }
+
+  private async handleBridgeReady(data: HandshakeRequest): Promise<HandshakeResult> {
+    const accepted = isProtocolVersionSupported(data.protocolVersion);
+    this.protocolState = accepted ? 'accepted' : 'rejected';
+
+    if (!accepted) {
+      console.warn(`Web app uses unsupported bridge protocol ${data.protocolVersion}`);
+    } else {
+      const events = this.pendingEvents;
+      this.pendingEvents = [];
+      const session = await authSessionService.getSession();
+      // After the handshake reply, so the client is set up when they arrive
+      setTimeout(() => {
+        events.forEach(event => this.sendToWebView(event));
+        // Tokens refreshed while no page was running to take them
+        if (session?.refreshedNatively) {
+          this.sendAuthSession(session, 'refreshed');
+        }
+      }, 0);
+    }
+
+    return {
+      accepted,
+      protocolVersion: BRIDGE_PROTOCOL_VERSION,
+      minProtocolVersion: MIN_SUPPORTED_PROTOCOL_VERSION,
+    };
+  }
+
+  private async handleRequestPermissions(data: PermissionsRequest): Promise<PermissionsResult> {
+    const { permissions } = data;
+    const granted = await mediaService.requestPermissions(permissions);
+
+    return { granted, permissions };
+  }
+
+  private async handleTakePhoto(data: CaptureOptions): Promise<MediaResult> {
+    return mediaService.takePhoto(data);
+  }
+
+  private async handlePickImage(data: PickMediaOptions): Promise<MediaPickResult> {
+    return mediaService.pickImage(data);
+  }
+
+  private sendRecordingStatus = (status: AudioRecordingStatus) => {
+    this.sendEvent('AUDIO_RECORDING_STATUS', status);
+  };
+
+  private async handleStartAudioRecording(data: AudioRecordingRequest): Promise<MediaResult> {
+    return mediaService.startAudioRecording({ ...data, onStatus: this.sendRecordingStatus });
+  }
+
+  // Records a single clip and resolves once it stops, whether it reached its
+  // maximum length, the page sent STOP_AUDIO_RECORDING or the call was cancelled
+  private async handleRecordAudio(data: AudioRecordingRequest, context: BridgeCallContext): Promise<MediaResult> {
+    let finish: (result: MediaResult) => void = () => {};
+    const finished = new Promise<MediaResult>(resolve => {
+      finish = resolve;
     });
+
+    const started = await mediaService.startAudioRecording({
+      ...data,
+      maxDurationMs: data.maxDurationMs ?? DEFAULT_CLIP_DURATION,
+      onStatus: (status) => {
+        this.sendRecordingStatus(status);
+        if (status.state === 'stopped') {
+          finish(status.result ?? { success: false, error: 'Audio recording failed' });
+        } else if (status.state === 'cancelled') {
+          finish({ success: false, error: 'Audio recording cancelled' });
+        }
+      },
+    });
+    if (!started.success) {
+      return started;
+    }
+
+    if (context.signal.aborted) {
+      await mediaService.cancelAudioRecording();
+    } else {
+      context.signal.addEventListener('abort', () => {
+        mediaService.cancelAudioRecording();
+      });
+    }
+
+    return finished;
+  }
+
+  private async handleProcessImage(data: ProcessImageRequest): Promise<ProcessedImageResult> {
+    const { uri, ...options } = data;
+
+    if (!isAppFileUri(uri)) {
+      return { success: false, error: 'File is not accessible to the web app' };
+    }
+
+    return mediaService.processImage(uri, options);
   }
 
-  private async handleTakePhoto(data: any) {
-    const { id } = data;
-    
+  private async handleGetLocation(): Promise<LocationResult> {
     try {
-      const hasPermission = await this.requestPermissions(['camera']);
+      const hasPermission = await mediaService.requestPermissions(['location']);
       if (!hasPermission) {
-        this.sendToWebView({
-          type: 'PHOTO_RESULT',
-          data: { success: false, error: 'Camera permission denied' },
-          id
-        });
-        return;
+        return { success: false, error: 'Location permission denied' };
       }
 
-      const result = await ImagePicker.launchCameraAsync({
-        mediaTypes: ImagePicker.MediaTypeOptions.All,
-        allowsEditing: true,
-        aspect: [4, 3],
-        quality: 0.8,
+      const location = await Location.getCurrentPositionAsync({
+        accuracy: Location.Accuracy.Balanced,
       });
 
-      if (!result.canceled && result.assets[0]) {
-        const asset = result.assets[0];
-        this.sendToWebView({
-          type: 'PHOTO_RESULT',
-          data: {
-            success: true,
-            uri: asset.uri,
-            width: asset.width,
-            height: asset.height,
-            type: asset.type,
-            fileName: asset.fileName,
-            fileSize: asset.fileSize
-          },
-          id
-        });
-      } else {
-        this.sendToWebView({
-          type: 'PHOTO_RESULT',
-          data: { success: false, error: 'Photo capture cancelled' },
-          id
-        });
-      }
+      return {
+        success: true,
+        latitude: location.coords.latitude,
+        longitude: location.coords.longitude,
+        accuracy: location.coords.accuracy ?? undefined,
+        altitude: location.coords.altitude,
+        heading: location.coords.heading,
+        speed: location.coords.speed,
+        timestamp: location.timestamp
+      };
     } catch (error) {
-      this.sendToWebView({
-        type: 'PHOTO_RESULT',
-        data: { success: false, error: error.message },
-        id
-      });
+      return { success: false, error: getErrorMessage(error) };
     }
   }
 
-  private async handlePickImage(data: any) {
-    const { id } = data;
-    
+  // Queues the download with the download manager; progress reaches the page
+  // as DOWNLOAD_PROGRESS events
+  private async handleDownloadFile(data: DownloadFileRequest, context: BridgeCallContext): Promise<DownloadFileResult> {
+    const { url, fileName, headers, wait = true } = data;
+
     try {
-      const hasPermission = await this.requestPermissions(['media_library']);
-      if (!hasPermission) {
-        this.sendToWebView({
-          type: 'IMAGE_PICK_RESULT',
-          data: { success: false, error: 'Media library permission denied' },
-          id
-        });
-        return;
+      const queued = await downloadManagerService.enqueue(url, { fileName, headers });
+      if (!wait) {
+        return { success: true, downloadId: queued.id, uri: queued.uri, fileName: queued.fileName };
       }
 
-      const result = await ImagePicker.launchImageLibraryAsync({
-        mediaTypes: ImagePicker.MediaTypeOptions.All,
-        allowsEditing: true,
-        aspect: [4, 3],
-        quality: 0.8,
-        allowsMultipleSelection: false,
+      context.signal.addEventListener('abort', () => {
+        downloadManagerService.cancel(queued.id);
       });
 
-      if (!result.canceled && result.assets[0]) {
-        const asset = result.assets[0];
-        this.sendToWebView({
-          type: 'IMAGE_PICK_RESULT',
-          data: {
-            success: true,
-            uri: asset.uri,
-            width: asset.width,
-            height: asset.height,
-            type: asset.type,
-            fileName: asset.fileName,
-            fileSize: asset.fileSize
-          },
-          id
-        });
-      } else {
-        this.sendToWebView({
-          type: 'IMAGE_PICK_RESULT',
-          data: { success: false, error: 'Image selection cancelled' },
-          id
-        });
+      const download = await downloadManagerService.waitForCompletion(queued.id);
+      if (!download) {
+        return { success: false, downloadId: queued.id, error: 'Download was removed' };
       }
+
+      return {
+        success: download.status === 'completed',
+        downloadId: download.id,
+        uri: download.uri,
+        fileName: download.fileName,
+        fileSize: download.bytesWritten,
+        mimeType: download.mimeType,
+        status: download.httpStatus,
+        error: download.status === 'cancelled' ? 'Download cancelled' : download.error,
+      };
     } catch (error) {
-      this.sendToWebView({
-        type: 'IMAGE_PICK_RESULT',
-        data: { success: false, error: error.message },
-        id
-      });
+      return { success: false, error: getErrorMessage(error) };
     }
   }
 
-  private async handleRecordAudio(data: any) {
-    const { id } = data;
-    
+  private async handleListDownloads(): Promise<ListDownloadsResult> {
+    const [downloads, files] = await Promise.all([
+      downloadManagerService.getDownloads(),
+      downloadManagerService.listFiles(),
+    ]);
+
+    return {
+      success: files.success,
+      downloads,
+      files: files.files,
+      error: files.error,
+    };
+  }
+
+  private async handleReadFile(data: ReadFileRequest): Promise<ReadFileResult> {
+    const { uri, position = 0, length = READ_FILE_CHUNK_SIZE } = data;
+
     try {
-      const hasPermission = await this.requestPermissions(['microphone']);
-      if (!hasPermission) {
-        this.sendToWebView({
-          type: 'AUDIO_RECORD_RESULT',
-          data: { success: false, error: 'Microphone permission denied' },
-          id
-        });
-        return;
+      if (!isAppFileUri(uri)) {
+        return { success: false, error: 'File is not accessible to the web app' };
       }
 
-      const recording = new Audio.Recording();
-      await recording.prepareToRecordAsync(Audio.RecordingOptionsPresets.HIGH_QUALITY);
-      await recording.startAsync();
-
-      // For now, we'll record for 10 seconds max, but this could be controlled by the web app
-      setTimeout(async () => {
-        try {
-          await recording.stopAndUnloadAsync();
-          const uri = recording.getURI();
-          
-          this.sendToWebView({
-            type: 'AUDIO_RECORD_RESULT',
-            data: {
-              success: true,
-              uri: uri,
-              duration: 10000 // 10 seconds
-            },
-            id
-          });
-        } catch (error) {
-          this.sendToWebView({
-            type: 'AUDIO_RECORD_RESULT',
-            data: { success: false, error: error.message },
-            id
-          });
-        }
-      }, 10000);
+      const info = await FileSystem.getInfoAsync(uri);
+      if (!info.exists || info.isDirectory) {
+        return { success: false, error: 'File not found' };
+      }
 
+      const chunkLength = Math.max(0, Math.min(length, info.size - position));
+      const chunk = chunkLength > 0
+        ? await FileSystem.readAsStringAsync(uri, {
+          encoding: FileSystem.EncodingType.Base64,
+          position,
+          length: chunkLength,
+        })
+        : '';
+
+      return {
+        success: true,
+        data: chunk,
+        position,
+        length: chunkLength,
+        size: info.size,
+        mimeType: requestService.getMimeTypeFromUri(uri),
+        done: position + chunkLength >= info.size,
+      };
     } catch (error) {
-      this.sendToWebView({
-        type: 'AUDIO_RECORD_RESULT',
-        data: { success: false, error: error.message },
-        id
-      });
+      return { success: false, error: getErrorMessage(error) };
     }
   }
 
-  private async handleGetLocation(data: any) {
-    const { id } = data;
-    
-    try {
-      const hasPermission = await this.requestPermissions(['location']);
-      if (!hasPermission) {
-        this.sendToWebView({
-          type: 'LOCATION_RESULT',
-          data: { success: false, error: 'Location permission denied' },
-          id
+  private async handleUploadFile(data: UploadFileRequest, context: BridgeCallContext): Promise<UploadFileResult> {
+    const { uri, url, method, fieldName, headers, parameters, mimeType, metadata, wait = true } = data;
+
+    if (!isAppFileUri(uri)) {
+      return { success: false, error: 'File is not accessible to the web app' };
+    }
+    if (!originPolicyService.isTrustedRequestUrl(url)) {
+      return { success: false, error: 'Uploads may only target the API or allowed origins' };
+    }
+
+    if (data.resumable && !wait) {
+      try {
+        const upload = await uploadManagerService.enqueue(uri, requestService.resolveUrl(url), {
+          headers,
+          metadata,
+          mimeType: mimeType || requestService.getMimeTypeFromUri(uri),
         });
-        return;
+        return { success: true, uploadId: upload.id };
+      } catch (error) {
+        return { success: false, error: getErrorMessage(error) };
       }
+    }
 
-      const location = await Location.getCurrentPositionAsync({
-        accuracy: Location.Accuracy.Balanced,
-      });
+    const response = await requestService.uploadFile(
+      url,
+      uri,
+      fieldName,
+      parameters,
+      (progress) => this.sendEvent('UPLOAD_PROGRESS', { ...progress, requestId: context.id, uri }),
+      { method, headers, mimeType, metadata, resumable: data.resumable, signal: context.signal }
+    );
+
+    return {
+      success: response.success,
+      status: response.status,
+      data: response.data,
+      error: response.error,
+      uploadId: response.data?.uploadId,
+      uploadUrl: response.data?.uploadUrl,
+    };
+  }
 
-      this.sendToWebView({
-        type: 'LOCATION_RESULT',
-        data: {
-          success: true,
-          latitude: location.coords.latitude,
-          longitude: location.coords.longitude,
-          accuracy: location.coords.accuracy,
-          altitude: location.coords.altitude,
-          heading: location.coords.heading,
-          speed: location.coords.speed,
-          timestamp: location.timestamp
-        },
-        id
-      });
-    } catch (error) {
-      this.sendToWebView({
-        type: 'LOCATION_RESULT',
-        data: { success: false, error: error.message },
-        id
-      });
+  private async handleUploadFiles(data: UploadFilesRequest, context: BridgeCallContext): Promise<UploadFileResult> {
+    const { files, url, method, headers, parameters } = data;
+
+    if (files.length === 0) {
+      return { success: false, error: 'No files to upload' };
     }
+    if (files.some(file => typeof file?.uri !== 'string' || !isAppFileUri(file.uri))) {
+      return { success: false, error: 'File is not accessible to the web app' };
+    }
+    if (!originPolicyService.isTrustedRequestUrl(url)) {
+      return { success: false, error: 'Uploads may only target the API or allowed origins' };
+    }
+
+    const response = await requestService.uploadFiles(
+      url,
+      files,
+      parameters,
+      (progress) => this.sendEvent('UPLOAD_PROGRESS', { ...progress, requestId: context.id }),
+      { method, headers, signal: context.signal }
+    );
+
+    return {
+      success: response.success,
+      status: response.status,
+      data: response.data,
+      error: response.error,
+    };
   }
 
-  private async handleDownloadFile(data: any) {
-    const { url, fileName, id } = data;
-    
-    try {
-      const fileUri = FileSystem.documentDirectory + `${env.DOWNLOADS_DIR}/${fileName || 'download'}`;
-      const downloadResult = await FileSystem.downloadAsync(url, fileUri);
-      
-      this.sendToWebView({
-        type: 'DOWNLOAD_RESULT',
-        data: {
-          success: true,
-          uri: downloadResult.uri,
-          fileName: fileName,
-          status: downloadResult.status
-        },
-        id
-      });
-    } catch (error) {
-      this.sendToWebView({
-        type: 'DOWNLOAD_RESULT',
-        data: { success: false, error: error.message },
-        id
-      });
+  private async handleSaveToGallery(data: SaveToGalleryRequest): Promise<SaveToGalleryResult> {
+    if (!isAppFileUri(data.uri)) {
+      return { success: false, error: 'File is not accessible to the web app' };
     }
-  }
 
-  private async handleSaveToGallery(data: any) {
-    const { uri, id } = data;
-    
     try {
-      const hasPermission = await this.requestPermissions(['media_library']);
+      const hasPermission = await mediaService.requestPermissions(['media_library']);
       if (!hasPermission) {
-        this.sendToWebView({
-          type: 'SAVE_GALLERY_RESULT',
-          data: { success: false, error: 'Media library permission denied' },
-          id
-        });
-        return;
+        return { success: false, error: 'Media library permission denied' };
       }
 
-      const asset = await MediaLibrary.createAssetAsync(uri);
-      
-      this.sendToWebView({
-        type: 'SAVE_GALLERY_RESULT',
-        data: {
-          success: true,
-          assetId: asset.id,
-          uri: asset.uri
-        },
-        id
-      });
+      const asset = await MediaLibrary.createAssetAsync(data.uri);
+
+      return {
+        success: true,
+        assetId: asset.id,
+        uri: asset.uri
+      };
     } catch (error) {
-      this.sendToWebView({
-        type: 'SAVE_GALLERY_RESULT',
-        data: { success: false, error: error.message },
-        id
-      });
+      return { success: false, error: getErrorMessage(error) };
     }
   }
 
-  private async handleShareFile(data: any) {
-    const { uri, mimeType, id } = data;
-    
+  private async handleShareFile(data: ShareFileRequest): Promise<BridgeResult> {
+    if (!isAppFileUri(data.uri)) {
+      return { success: false, error: 'File is not accessible to the web app' };
+    }
+
     try {
       const isAvailable = await Sharing.isAvailableAsync();
       if (!isAvailable) {
-        this.sendToWebView({
-          type: 'SHARE_RESULT',
-          data: { success: false, error: 'Sharing not available on this device' },
-          id
-        });
-        return;
+        return { success: false, error: 'Sharing not available on this device' };
       }
 
-      await Sharing.shareAsync(uri, {
-        mimeType: mimeType || 'application/octet-stream',
+      await Sharing.shareAsync(data.uri, {
+        mimeType: data.mimeType || 'application/octet-stream',
         dialogTitle: 'Share file'
       });
-      
-      this.sendToWebView({
-        type: 'SHARE_RESULT',
-        data: { success: true },
-        id
-      });
+
+      return { success: true };
     } catch (error) {
-      this.sendToWebView({
-        type: 'SHARE_RESULT',
-        data: { success: false, error: error.message },
-        id
-      });
+      return { success: false, error: getErrorMessage(error) };
     }
   }
 
-  private async handlePickDocument(data: any) {
-    const { id } = data;
-    
+  private async handlePickDocument(): Promise<DocumentPickResult> {
     try {
       const result = await DocumentPicker.getDocumentAsync({
         type: '*/*',
@@ -452,153 +636,198 @@ export class WebViewBridge {
 
       if (!result.canceled && result.assets[0]) {
         const asset = result.assets[0];
-        this.sendToWebView({
-          type: 'DOCUMENT_PICK_RESULT',
-          data: {
-            success: true,
-            uri: asset.uri,
-            name: asset.name,
-            size: asset.size,
-            mimeType: asset.mimeType
-          },
-          id
-        });
-      } else {
-        this.sendToWebView({
-          type: 'DOCUMENT_PICK_RESULT',
-          data: { success: false, error: 'Document selection cancelled' },
-          id
-        });
+        return {
+          success: true,
+          uri: asset.uri,
+          name: asset.name,
+          size: asset.size,
+          mimeType: asset.mimeType
+        };
       }
+
+      return { success: false, error: 'Document selection cancelled' };
     } catch (error) {
-      this.sendToWebView({
-        type: 'DOCUMENT_PICK_RESULT',
-        data: { success: false, error: error.message },
-        id
-      });
+      return { success: false, error: getErrorMessage(error) };
     }
   }
 
-  private async handleVibrate(data: any) {
-    const { pattern = env.VIBRATION_PATTERN } = data;
-    
+  private async handleVibrate(data: VibrateRequest): Promise<BridgeResult> {
+    const { pattern = [...env.VIBRATION_PATTERN] } = data;
+
     try {
       if (Platform.OS === 'ios') {
         Vibration.vibrate();
       } else {
         Vibration.vibrate(pattern);
       }
-      
-      this.sendToWebView({
-        type: 'VIBRATE_RESULT',
-        data: { success: true },
-        id: data.id
-      });
+
+      return { success: true };
     } catch (error) {
-      this.sendToWebView({
-        type: 'VIBRATE_RESULT',
-        data: { success: false, error: error.message },
-        id: data.id
-      });
+      return { success: false, error: getErrorMessage(error) };
     }
   }
 
-  private async handleShowAlert(data: any) {
-    const { title, message, buttons, id } = data;
-    
+  private async handleShowAlert(data: ShowAlertRequest): Promise<BridgeResult> {
+    const { title, message, buttons } = data;
+
     try {
       Alert.alert(title || 'Alert', message || '', buttons || [{ text: 'OK' }]);
-      
-      this.sendToWebView({
-        type: 'ALERT_RESULT',
-        data: { success: true },
-        id
-      });
+
+      return { success: true };
     } catch (error) {
-      this.sendToWebView({
-        type: 'ALERT_RESULT',
-        data: { success: false, error: error.message },
-        id
-      });
+      return { success: false, error: getErrorMessage(error) };
     }
   }
 
-  private async handleGetDeviceInfo(data: any) {
-    const { id } = data;
-    
+  private async handleGetDeviceInfo(): Promise<DeviceInfoResult> {
     try {
       const deviceInfo = {
         platform: Platform.OS,
         version: Platform.Version,
         isDevice: true, // You might want to use expo-device for more detailed info
       };
-      
-      this.sendToWebView({
-        type: 'DEVICE_INFO_RESULT',
-        data: { success: true, deviceInfo },
-        id
-      });
+
+      return { success: true, deviceInfo };
     } catch (error) {
-      this.sendToWebView({
-        type: 'DEVICE_INFO_RESULT',
-        data: { success: false, error: error.message },
-        id
-      });
+      return { success: false, error: getErrorMessage(error) };
     }
   }
 
-  private async handleUpdateUserInfo(data: any) {
-    const { userId, userEmail, userToken, id } = data;
-    
+  private async handleUpdateUserInfo(data: UserInfoRequest): Promise<UserInfoResult> {
+    const { userId, userEmail, userToken, refreshToken, expiresAt } = data;
+
     try {
+      // Store the session first so the device registration below is authenticated
+      if (userToken) {
+        await authSessionService.setSession({
+          accessToken: userToken,
+          refreshToken,
+          expiresAt: expiresAt ? expiresAt * 1000 : undefined,
+          userId,
+          userEmail,
+        });
+      }
+
       // Import the push notification service
       const { pushNotificationService } = await import('../services/pushNotificationService');
-      
+
       // Update the device registration with user info
       await pushNotificationService.updateUserInfo({
         userId,
         userEmail,
         userToken
       });
-      
-      this.sendToWebView({
-        type: 'USER_INFO_UPDATED',
-        data: { 
-          success: true, 
-          userId, 
-          userEmail 
-        },
-        id
-      });
+
+      return { success: true, userId, userEmail };
     } catch (error) {
-      this.sendToWebView({
-        type: 'USER_INFO_UPDATE_ERROR',
-        data: { 
-          success: false, 
-          error: error.message 
-        },
-        id
-      });
+      return { success: false, error: getErrorMessage(error) };
     }
   }
 
-  private async handleOpenUrl(data: any) {
-    const { url, id } = data;
-    
+  private async handleUserLogout(): Promise<LogoutResult> {
     try {
-      // This would typically use expo-web-browser
-      // For now, we'll just send a success response
-      this.sendToWebView({
-        type: 'OPEN_URL_RESULT',
-        data: { success: true, url },
-        id
-      });
+      const { pushNotificationService } = await import('../services/pushNotificationService');
+
+      // Drop the previous user's queued requests before anything replays them
+      // with someone else's session, then forget the session itself
+      const discardedRequests = await outboxService.clear();
+      const session = await authSessionService.getSession();
+      await authSessionService.clearSession();
+
+      const unbind = await pushNotificationService.unregisterUser(session?.userId);
+      await pushNotificationService.clearUserNotifications();
+
+      await downloadManagerService.clear();
+      await uploadManagerService.clear();
+      const purge = await fileDownloadService.clearUserFiles();
+      if (!purge.success) {
+        console.warn('Could not remove all user files:', purge.error);
+      }
+      await pageCacheService.clear();
+
+      if (!unbind.success && !unbind.queued) {
+        return { success: false, error: unbind.error || 'Could not detach user from device', discardedRequests };
+      }
+
+      return { success: true, deviceUnbound: unbind.success, discardedRequests };
     } catch (error) {
-      this.sendToWebView({
-        type: 'OPEN_URL_RESULT',
-        data: { success: false, error: error.message },
-        id
-      });
+      return { success: false, error: getErrorMessage(error) };
     }
   }
+
+  private async handleOpenUrl(data: OpenUrlRequest): Promise<ExternalLinkResult> {
+    const { url } = data;
+    const mode = externalLinkService.resolveMode(url, data.mode);
+
+    if (mode === 'webview') {
+      this.navigateTo(url);
+      return { success: true, url, mode };
+    }
+
+    return externalLinkService.openUrl(url, mode);
+  }
+
+  // Off-origin URLs are routed back out by the WebView's navigation check
+  public navigateTo(url: string) {
+    this.webViewRef.current?.injectJavaScript(`
+      window.location.href = ${JSON.stringify(url)};
+      true;
+    `);
+  }
+
+  private async handleGetPushToken(): Promise<PushTokenResult> {
+    const { pushNotificationService } = await import('../services/pushNotificationService');
+
+    return {
+      token: pushNotificationService.getPushToken(),
+      isRegistered: pushNotificationService.isPushRegistered(),
+    };
+  }
+
+  private async handleSetNotificationPresentation(data: NotificationPresentationRequest): Promise<BridgeResult> {
+    const { pushNotificationService } = await import('../services/pushNotificationService');
+
+    return pushNotificationService.setPresentationRules(data.rules);
+  }
+
+  private async handleListReminders(): Promise<ListRemindersResult> {
+    try {
+      return { success: true, reminders: await reminderService.list() };
+    } catch (error) {
+      return { success: false, error: getErrorMessage(error) };
+    }
+  }
+
+  private async handleGetNotificationPreferences(): Promise<GetNotificationPreferencesResult> {
+    const { pushNotificationService } = await import('../services/pushNotificationService');
+    const result = await notificationPreferencesService.get();
+
+    return { ...result, deviceId: pushNotificationService.getDeviceId() };
+  }
+
+  private async handleOpenNotificationSettings(): Promise<BridgeResult> {
+    router.push('/notification-settings');
+    return { success: true };
+  }
+
+  private async handleQueueRequest(data: QueueRequestRequest): Promise<ApiResponse> {
+    const { url, method, body, headers, idempotencyKey } = data;
+
+    if (!originPolicyService.isTrustedRequestUrl(url)) {
+      return { success: false, error: 'Requests may only target the API or allowed origins' };
+    }
+
+    return requestService.request(url, { method, body, headers, idempotencyKey, queueable: true });
+  }
+
+  private async handleListOutbox(): Promise<ListOutboxResult> {
+    return { success: true, pending: await outboxService.getPending() };
+  }
+
+  private async handleCancelRequest(data: CancelRequest): Promise<CancelResult> {
+    const controller = this.inFlight.get(data.requestId);
+    controller?.abort();
+
+    return { cancelled: !!controller };
+  }
 }
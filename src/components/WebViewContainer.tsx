@@ -1,12 +1,26 @@
 import { useFocusEffect } from '@react-navigation/native';
-import React, { useCallback, useEffect, useRef, useState } from 'react';
-import { ActivityIndicator, Alert, BackHandler, Platform, Text, View } from 'react-native';
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { ActivityIndicator, Alert, AppState, BackHandler, Platform, Text, TouchableOpacity, View } from 'react-native';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
 import { WebView } from 'react-native-webview';
+import { ShouldStartLoadRequest } from 'react-native-webview/lib/WebViewTypes';
 import { useTokenNotification } from '../context/TokenNotificationContext';
 import { env } from '../env';
-import { webViewStyles } from './styles';
-import { BridgeMessage, WebViewBridge } from './WebViewBridge';
+import { authSessionService } from '../services/authSessionService';
+import { deepLinkService } from '../services/deepLinkService';
+import { downloadManagerService } from '../services/downloadManagerService';
+import { externalLinkService } from '../services/externalLinkService';
+import { networkService } from '../services/networkService';
+import { outboxService } from '../services/outboxService';
+import { originPolicyService } from '../services/originPolicyService';
+import { PageSnapshot, pageCacheService } from '../services/pageCacheService';
+import { pushNotificationService } from '../services/pushNotificationService';
+import { uploadManagerService } from '../services/uploadManagerService';
+import { createBridgeNonce, redactBridgeMessage } from './bridgeProtocol';
+import { createBridgeScript } from './bridgeScript';
+import { OfflineScreen } from './OfflineScreen';
+import { offlineStyles, webViewStyles } from './styles';
+import { WebViewBridge } from './WebViewBridge';
 
 interface WebViewContainerProps {
   onNavigationStateChange?: (navState: any) => void;
@@ -35,52 +49,189 @@ export const WebViewContainer: React.FC<WebViewContainerProps> = ({
   const [isWebViewMounted, setIsWebViewMounted] = useState(false);
   const [isWebViewReady, setIsWebViewReady] = useState(false);
   const [bridge, setBridge] = useState<WebViewBridge | null>(null);
+  const [isOffline, setIsOffline] = useState(() => !networkService.isOnline());
+  const [appState, setAppState] = useState(AppState.currentState);
+  // Cached copy of a page shown while offline
+  const [snapshot, setSnapshot] = useState<PageSnapshot | null>(null);
+  // Changing the key remounts the WebView for a clean reload
+  const [reloadKey, setReloadKey] = useState(0);
+  // Page the WebView (re)loads; a deep link replaces the initial URL
+  const [sourceUrl, setSourceUrl] = useState(initialUrl);
   const { pushToken, isRegistered } = useTokenNotification();
   const insets = useSafeAreaInsets();
+  // One nonce per mounted WebView, so recreating the bridge keeps the page's copy valid
+  const bridgeNonce = useMemo(() => createBridgeNonce(), []);
+  const bridgeScript = useMemo(() => createBridgeScript({
+    nonce: bridgeNonce,
+    allowedOrigins: originPolicyService.getAllowedOrigins(),
+  }), [bridgeNonce]);
 
   // Initialize bridge
   useEffect(() => {
-    const webViewBridge = new WebViewBridge(webViewRef, onMessage);
+    const webViewBridge = new WebViewBridge(webViewRef, bridgeNonce, onMessage);
     setBridge(webViewBridge);
-  }, [onMessage]);
+  }, [bridgeNonce, onMessage]);
 
   // Send push token to web app when available
   useEffect(() => {
     if (pushToken && isRegistered && bridge) {
-      const message: BridgeMessage = {
-        type: 'PUSH_TOKEN',
-        data: { token: pushToken, isRegistered }
-      };
-      bridge.sendToWebView(message);
+      bridge.sendEvent('PUSH_TOKEN', { token: pushToken, isRegistered });
     }
   }, [pushToken, isRegistered, bridge]);
 
-  // Handle user authentication from web app
-  const handleUserAuth = useCallback(async (userData: any) => {
-    console.log('User authentication received from web app:', userData);
-    
-    // Update device registration with user info
-    if (bridge) {
-      const message: BridgeMessage = {
-        type: 'UPDATE_USER_INFO',
-        data: {
-          userId: userData.userId,
-          userEmail: userData.userEmail,
-          userToken: userData.userToken
-        }
-      };
-      await bridge.handleMessage(message);
+  // Stream download manager progress to the web app
+  useEffect(() => {
+    if (!bridge) {
+      return;
+    }
+
+    return downloadManagerService.subscribe(download => {
+      bridge.sendEvent('DOWNLOAD_PROGRESS', download);
+    });
+  }, [bridge]);
+
+  // Stream resumable upload progress to the web app
+  useEffect(() => {
+    if (!bridge) {
+      return;
+    }
+
+    return uploadManagerService.subscribe(upload => {
+      bridge.sendEvent('RESUMABLE_UPLOAD_PROGRESS', upload);
+    });
+  }, [bridge]);
+
+  const reload = useCallback(() => {
+    setSnapshot(null);
+    setRetryCount(0);
+    setHasError(false);
+    setIsLoading(true);
+    setReloadKey(key => key + 1);
+  }, []);
+
+  // Report requests replayed from the outbox to the web app
+  useEffect(() => {
+    if (!bridge) {
+      return;
+    }
+
+    return outboxService.subscribe(result => {
+      bridge.sendEvent('OUTBOX_RESULT', result);
+    });
+  }, [bridge]);
+
+  // Track connectivity and reload once the connection comes back
+  useEffect(() => {
+    return networkService.subscribe(isOnline => {
+      setIsOffline(!isOnline);
+    });
+  }, []);
+
+  const wasOffline = useRef(isOffline);
+  useEffect(() => {
+    if (wasOffline.current && !isOffline && (hasError || snapshot)) {
+      console.log('Back online - reloading WebView');
+      reload();
+    }
+    wasOffline.current = isOffline;
+  }, [isOffline, hasError, snapshot, reload]);
+
+  // Links opened while the app runs navigate the live page, or replace the
+  // error or offline copy currently on screen
+  const openAppUrl = useCallback((url: string) => {
+    if (isWebViewMounted && !isLoading && !hasError && !snapshot && bridge) {
+      bridge.navigateTo(url);
+      return;
+    }
+
+    setSourceUrl(url);
+    reload();
+  }, [isWebViewMounted, isLoading, hasError, snapshot, bridge, reload]);
+
+  useEffect(() => deepLinkService.subscribe(openAppUrl), [openAppUrl]);
+
+  useEffect(() => {
+    const subscription = AppState.addEventListener('change', setAppState);
+    return () => subscription.remove();
+  }, []);
+
+  // The live page refreshes the session itself while it is on screen; saved copies
+  // and the error screens run no scripts, and a backgrounded page is paused
+  const isPageActive = appState === 'active' && !snapshot && !hasError;
+  useEffect(() => {
+    authSessionService.setPageActive(isPageActive);
+    return () => authSessionService.setPageActive(false);
+  }, [isPageActive]);
+
+  // Native refreshed or lost the session; the web app must take over the new tokens
+  useEffect(() => {
+    if (!bridge) {
+      return;
     }
+
+    return authSessionService.subscribe((session, change) => {
+      if (change === 'refreshed' || change === 'expired') {
+        bridge.sendAuthSession(session, change);
+      }
+    });
   }, [bridge]);
 
+  // Forward notifications that arrive while the app is in the foreground
+  useEffect(() => {
+    if (!bridge) {
+      return;
+    }
+
+    return pushNotificationService.subscribeToReceived(received => {
+      bridge.sendEvent('NOTIFICATION_RECEIVED', received);
+    });
+  }, [bridge]);
+
+  // Notification taps wait until the first page is ready, then open their page
+  // and tell the web app which notification was opened
+  useEffect(() => {
+    if (!isWebViewReady || !bridge) {
+      return;
+    }
+
+    return pushNotificationService.subscribeToOpened(opened => {
+      if (!opened.url) {
+        bridge.sendEvent('NOTIFICATION_OPENED', opened);
+        return;
+      }
+
+      bridge.sendEventAfterNavigation('NOTIFICATION_OPENED', opened);
+      openAppUrl(opened.url);
+    });
+  }, [isWebViewReady, bridge, openAppUrl]);
+
+  const openSnapshot = useCallback(async (url: string) => {
+    const cached = await pageCacheService.getSnapshot(url);
+    if (cached) {
+      setSnapshot(cached);
+    }
+  }, []);
+
   // WebView mounting detection
   React.useEffect(() => {
-    const timer = setTimeout(() => {
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      // A link that launched the app decides the first page
+      const launchUrl = await deepLinkService.consumeInitialUrl();
+      if (cancelled) {
+        return;
+      }
+      if (launchUrl) {
+        setSourceUrl(launchUrl);
+      }
       setIsWebViewMounted(true);
       console.log('WebView mounted');
     }, 100); // Small delay to ensure WebView is mounted
 
-    return () => clearTimeout(timer);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
   }, []);
 
   // Notify when WebView is ready
@@ -92,13 +243,16 @@ export const WebViewContainer: React.FC<WebViewContainerProps> = ({
     }
   }, [isWebViewMounted, isLoading, hasError, onWebViewReady]);
 
-  // Add timeout to prevent infinite loading
+  // Add timeout to prevent infinite loading. A slow page stays up and keeps loading;
+  // only without a connection does the offline screen, with its saved pages, take over
   React.useEffect(() => {
     const timeout = setTimeout(() => {
       if (isLoading) {
         console.log('WebView loading timeout - forcing load end');
         setIsLoading(false);
-        setHasError(true);
+        if (!networkService.isOnline()) {
+          setHasError(true);
+        }
       }
     }, 15000); // Increased to 15 second timeout
 
@@ -130,26 +284,46 @@ export const WebViewContainer: React.FC<WebViewContainerProps> = ({
     onNavigationStateChange?.(navState);
   };
 
+  // Only allow-listed origins may load in the main frame; subframes (embeds) are left alone.
+  // Everything else is handed to the in-app browser or the app that handles the scheme.
+  const handleShouldStartLoad = (request: ShouldStartLoadRequest) => {
+    console.log('Should start load with request:', request);
+    if (request.isTopFrame === false || request.url === 'about:blank') {
+      return true;
+    }
+
+    if (originPolicyService.isAllowedUrl(request.url)) {
+      return true;
+    }
+
+    console.log('Routing off-origin navigation out of the WebView:', request.url);
+    externalLinkService.openUrl(request.url).then(result => {
+      if (!result.success) {
+        console.warn('Could not open external URL:', result.error);
+      }
+      bridge?.sendEvent('EXTERNAL_URL_OPENED', result);
+    });
+    return false;
+  };
+
   const handleMessage = async (event: any) => {
+    let message: unknown;
     try {
-      const message = JSON.parse(event.nativeEvent.data) as BridgeMessage;
-      console.log('WebView message received:', message);
-      
-      // Handle special user authentication messages
-      if (message.type === 'USER_AUTH') {
-        await handleUserAuth(message.data);
-        return;
-      }
-      
-      // Handle message through bridge
-      if (bridge) {
-        await bridge.handleMessage(message);
-      }
-      
-      // Also call the original onMessage callback
-      onMessage?.(message);
+      message = JSON.parse(event.nativeEvent.data);
+      console.log('WebView message received:', redactBridgeMessage(message));
     } catch (error) {
       console.error('Error parsing WebView message:', error);
+      return;
+    }
+
+    // Handle message through bridge, which validates its origin, nonce and shape
+    if (bridge) {
+      await bridge.handleMessage(message, event.nativeEvent.url);
+    }
+
+    // Also call the original onMessage callback for trusted pages
+    if (originPolicyService.isAllowedUrl(event.nativeEvent.url)) {
+      onMessage?.(message);
     }
   };
 
@@ -158,6 +332,12 @@ export const WebViewContainer: React.FC<WebViewContainerProps> = ({
     setHasError(true);
     setIsLoading(false);
     onError?.(error);
+
+    // Retrying is pointless without a connection; the offline screen reloads on reconnect
+    if (!networkService.isOnline()) {
+      console.log('WebView failed while offline - showing offline screen');
+      return;
+    }
     
     // Auto-retry up to 3 times
     if (retryCount < 3) {
@@ -166,19 +346,14 @@ export const WebViewContainer: React.FC<WebViewContainerProps> = ({
         setRetryCount(prev => prev + 1);
         setHasError(false);
         setIsLoading(true);
-        webViewRef.current?.reload();
+        setReloadKey(key => key + 1);
       }, 2000);
     } else {
       Alert.alert(
         'Loading Error',
         'There was an error loading the Pastor Agenda website. Please check your internet connection and try again.',
         [
-          { text: 'Retry', onPress: () => {
-            setRetryCount(0);
-            setHasError(false);
-            setIsLoading(true);
-            webViewRef.current?.reload();
-          }},
+          { text: 'Retry', onPress: reload },
           { text: 'Cancel', style: 'cancel' },
         ]
       );
@@ -186,14 +361,14 @@ export const WebViewContainer: React.FC<WebViewContainerProps> = ({
   };
 
   const handleLoadStart = () => {
-    console.log('WebView load started for URL:', initialUrl);
+    console.log('WebView load started for URL:', sourceUrl);
     setIsLoading(true);
     setHasError(false);
     onLoadStart?.();
   };
 
   const handleLoadEnd = () => {
-    console.log('WebView load completed for URL:', initialUrl);
+    console.log('WebView load completed for URL:', sourceUrl);
     setIsLoading(false);
     onLoadEnd?.();
     
@@ -207,313 +382,37 @@ export const WebViewContainer: React.FC<WebViewContainerProps> = ({
     }, 500); // Small delay to ensure content is rendered
   };
 
-  // Enhanced JavaScript bridge for comprehensive communication
-  const bridgeScript = `
-    (function() {
-      console.log('WebView bridge initialized');
-      
-      // Create a global bridge object for the web app to use
-      window.ReactNativeBridge = {
-        // Send message to React Native
-        sendMessage: function(type, data) {
-          const message = {
-            type: type,
-            data: data,
-            id: 'msg_' + Date.now() + '_' + Math.random().toString(36).substr(2, 9)
-          };
-          window.ReactNativeWebView.postMessage(JSON.stringify(message));
-        },
-        
-        // Request permissions
-        requestPermissions: function(permissions) {
-          return new Promise((resolve) => {
-            const messageId = 'msg_' + Date.now() + '_' + Math.random().toString(36).substr(2, 9);
-            const message = {
-              type: 'REQUEST_PERMISSIONS',
-              data: { permissions: permissions },
-              id: messageId
-            };
-            
-            // Set up listener for response
-            const originalPostMessage = window.ReactNativeWebView.postMessage;
-            const listener = function(event) {
-              try {
-                const response = JSON.parse(event.data);
-                if (response.id === messageId) {
-                  window.removeEventListener('message', listener);
-                  resolve(response.data);
-                }
-              } catch (e) {
-                // Ignore parsing errors
-              }
-            };
-            window.addEventListener('message', listener);
-            
-            window.ReactNativeWebView.postMessage(JSON.stringify(message));
-          });
-        },
-        
-        // Take photo
-        takePhoto: function(options) {
-          return new Promise((resolve) => {
-            const messageId = 'msg_' + Date.now() + '_' + Math.random().toString(36).substr(2, 9);
-            const message = {
-              type: 'TAKE_PHOTO',
-              data: { ...options },
-              id: messageId
-            };
-            
-            const listener = function(event) {
-              try {
-                const response = JSON.parse(event.data);
-                if (response.id === messageId) {
-                  window.removeEventListener('message', listener);
-                  resolve(response.data);
-                }
-              } catch (e) {
-                // Ignore parsing errors
-              }
-            };
-            window.addEventListener('message', listener);
-            
-            window.ReactNativeWebView.postMessage(JSON.stringify(message));
-          });
-        },
-        
-        // Pick image from gallery
-        pickImage: function(options) {
-          return new Promise((resolve) => {
-            const messageId = 'msg_' + Date.now() + '_' + Math.random().toString(36).substr(2, 9);
-            const message = {
-              type: 'PICK_IMAGE',
-              data: { ...options },
-              id: messageId
-            };
-            
-            const listener = function(event) {
-              try {
-                const response = JSON.parse(event.data);
-                if (response.id === messageId) {
-                  window.removeEventListener('message', listener);
-                  resolve(response.data);
-                }
-              } catch (e) {
-                // Ignore parsing errors
-              }
-            };
-            window.addEventListener('message', listener);
-            
-            window.ReactNativeWebView.postMessage(JSON.stringify(message));
-          });
-        },
-        
-        // Record audio
-        recordAudio: function(options) {
-          return new Promise((resolve) => {
-            const messageId = 'msg_' + Date.now() + '_' + Math.random().toString(36).substr(2, 9);
-            const message = {
-              type: 'RECORD_AUDIO',
-              data: { ...options },
-              id: messageId
-            };
-            
-            const listener = function(event) {
-              try {
-                const response = JSON.parse(event.data);
-                if (response.id === messageId) {
-                  window.removeEventListener('message', listener);
-                  resolve(response.data);
-                }
-              } catch (e) {
-                // Ignore parsing errors
-              }
-            };
-            window.addEventListener('message', listener);
-            
-            window.ReactNativeWebView.postMessage(JSON.stringify(message));
-          });
-        },
-        
-        // Get location
-        getLocation: function(options) {
-          return new Promise((resolve) => {
-            const messageId = 'msg_' + Date.now() + '_' + Math.random().toString(36).substr(2, 9);
-            const message = {
-              type: 'GET_LOCATION',
-              data: { ...options },
-              id: messageId
-            };
-            
-            const listener = function(event) {
-              try {
-                const response = JSON.parse(event.data);
-                if (response.id === messageId) {
-                  window.removeEventListener('message', listener);
-                  resolve(response.data);
-                }
-              } catch (e) {
-                // Ignore parsing errors
-              }
-            };
-            window.addEventListener('message', listener);
-            
-            window.ReactNativeWebView.postMessage(JSON.stringify(message));
-          });
-        },
-        
-        // Download file
-        downloadFile: function(url, fileName) {
-          return new Promise((resolve) => {
-            const messageId = 'msg_' + Date.now() + '_' + Math.random().toString(36).substr(2, 9);
-            const message = {
-              type: 'DOWNLOAD_FILE',
-              data: { url: url, fileName: fileName },
-              id: messageId
-            };
-            
-            const listener = function(event) {
-              try {
-                const response = JSON.parse(event.data);
-                if (response.id === messageId) {
-                  window.removeEventListener('message', listener);
-                  resolve(response.data);
-                }
-              } catch (e) {
-                // Ignore parsing errors
-              }
-            };
-            window.addEventListener('message', listener);
-            
-            window.ReactNativeWebView.postMessage(JSON.stringify(message));
-          });
-        },
-        
-        // Share file
-        shareFile: function(uri, mimeType) {
-          return new Promise((resolve) => {
-            const messageId = 'msg_' + Date.now() + '_' + Math.random().toString(36).substr(2, 9);
-            const message = {
-              type: 'SHARE_FILE',
-              data: { uri: uri, mimeType: mimeType },
-              id: messageId
-            };
-            
-            const listener = function(event) {
-              try {
-                const response = JSON.parse(event.data);
-                if (response.id === messageId) {
-                  window.removeEventListener('message', listener);
-                  resolve(response.data);
-                }
-              } catch (e) {
-                // Ignore parsing errors
-              }
-            };
-            window.addEventListener('message', listener);
-            
-            window.ReactNativeWebView.postMessage(JSON.stringify(message));
-          });
-        },
-        
-        // Vibrate device
-        vibrate: function(pattern) {
-          return new Promise((resolve) => {
-            const messageId = 'msg_' + Date.now() + '_' + Math.random().toString(36).substr(2, 9);
-            const message = {
-              type: 'VIBRATE',
-              data: { pattern: pattern },
-              id: messageId
-            };
-            
-            const listener = function(event) {
-              try {
-                const response = JSON.parse(event.data);
-                if (response.id === messageId) {
-                  window.removeEventListener('message', listener);
-                  resolve(response.data);
-                }
-              } catch (e) {
-                // Ignore parsing errors
-              }
-            };
-            window.addEventListener('message', listener);
-            
-            window.ReactNativeWebView.postMessage(JSON.stringify(message));
-          });
-        },
-        
-        // Show alert
-        showAlert: function(title, message, buttons) {
-          return new Promise((resolve) => {
-            const messageId = 'msg_' + Date.now() + '_' + Math.random().toString(36).substr(2, 9);
-            const message = {
-              type: 'SHOW_ALERT',
-              data: { title: title, message: message, buttons: buttons },
-              id: messageId
-            };
-            
-            const listener = function(event) {
-              try {
-                const response = JSON.parse(event.data);
-                if (response.id === messageId) {
-                  window.removeEventListener('message', listener);
-                  resolve(response.data);
-                }
-              } catch (e) {
-                // Ignore parsing errors
-              }
-            };
-            window.addEventListener('message', listener);
-            
-            window.ReactNativeWebView.postMessage(JSON.stringify(message));
-          });
-        },
-        
-        // Update user authentication info
-        updateUserAuth: function(userId, userEmail, userToken) {
-          const message = {
-            type: 'USER_AUTH',
-            data: {
-              userId: userId,
-              userEmail: userEmail,
-              userToken: userToken
+  if (snapshot) {
+    return (
+      <View style={[webViewStyles.container, { paddingTop: insets.top }]}>
+        <View style={offlineStyles.banner}>
+          <Text style={offlineStyles.bannerText} numberOfLines={1}>
+            Offline copy from {new Date(snapshot.savedAt).toLocaleString()}
+          </Text>
+          <TouchableOpacity onPress={() => setSnapshot(null)}>
+            <Text style={offlineStyles.bannerButton}>Close</Text>
+          </TouchableOpacity>
+        </View>
+        <WebView
+          source={{ html: snapshot.html, baseUrl: snapshot.url }}
+          style={webViewStyles.webView}
+          javaScriptEnabled={false}
+          onShouldStartLoadWithRequest={(request) => {
+            if (request.url === snapshot.url || request.url === 'about:blank' || request.url.startsWith('data:')) {
+              return true;
             }
-          };
-          window.ReactNativeWebView.postMessage(JSON.stringify(message));
-        },
-        
-        // Get current push token
-        getPushToken: function() {
-          return new Promise((resolve) => {
-            const listener = function(event) {
-              try {
-                const response = JSON.parse(event.data);
-                if (response.type === 'PUSH_TOKEN') {
-                  window.removeEventListener('message', listener);
-                  resolve(response.data);
-                }
-              } catch (e) {
-                // Ignore parsing errors
-              }
-            };
-            window.addEventListener('message', listener);
-            
-            // Request push token
-            window.ReactNativeWebView.postMessage(JSON.stringify({
-              type: 'GET_PUSH_TOKEN',
-              data: {}
-            }));
-          });
-        }
-      };
-      
-      // Notify that bridge is ready
-      window.ReactNativeBridge.sendMessage('BRIDGE_READY', {});
-      
-      console.log('ReactNativeBridge object created and ready');
-    })();
-    true;
-  `;
+            // Links can only lead to other saved pages
+            openSnapshot(request.url);
+            return false;
+          }}
+        />
+      </View>
+    );
+  }
+
+  if (hasError && isOffline) {
+    return <OfflineScreen onRetry={reload} onOpenSnapshot={openSnapshot} />;
+  }
 
   if (hasError) {
     return (
@@ -535,57 +434,52 @@ export const WebViewContainer: React.FC<WebViewContainerProps> = ({
     );
   }
 
-  // Show loading state until WebView is ready
-  if (!isWebViewMounted || isLoading) {
-    return (
-      <View style={[webViewStyles.container, { paddingTop: insets.top }]}>
-        <View style={[webViewStyles.loadingContainer, { paddingTop: insets.top }]}>
-          <ActivityIndicator size="large" color={env.PRIMARY_COLOR} />
-        </View>
-      </View>
-    );
-  }
-
+  // The loading overlay covers the WebView so it can keep loading underneath
   return (
     <View style={[webViewStyles.container, { paddingTop: insets.top }]}>
-      <WebView
-        ref={webViewRef}
-        source={{ uri: initialUrl }}
-        style={webViewStyles.webView}
-        onShouldStartLoadWithRequest={(request) => {
-          console.log('Should start load with request:', request);
-          return true;
-        }}
-        onNavigationStateChange={handleNavigationStateChange}
-        onMessage={handleMessage}
-        onError={handleError}
-        onLoadStart={handleLoadStart}
-        onLoadEnd={handleLoadEnd}
-        onHttpError={(syntheticEvent) => {
-          const { nativeEvent } = syntheticEvent;
-          console.log('WebView HTTP error:', nativeEvent);
-          setHasError(true);
-          setIsLoading(false);
-        }}
-        onLoadProgress={(syntheticEvent) => {
-          const { nativeEvent } = syntheticEvent;
-          console.log('WebView load progress:', nativeEvent.progress);
-        }}
-        injectedJavaScript={bridgeScript}
-        javaScriptEnabled={true}
-        domStorageEnabled={true}
-        startInLoadingState={true}
-        scalesPageToFit={true}
-        allowsInlineMediaPlayback={true}
-        mediaPlaybackRequiresUserAction={false}
-        allowsFullscreenVideo={true}
-        mixedContentMode="compatibility"
-        thirdPartyCookiesEnabled={true}
-        sharedCookiesEnabled={true}
-        cacheEnabled={true}
-        incognito={false}
-        userAgent="Mozilla/5.0 (Linux; Android 10; Mobile) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/91.0.4472.120 Mobile Safari/537.36 PastorAgendaApp/1.0.0"
-      />
+      {isWebViewMounted && (
+        <WebView
+          key={reloadKey}
+          ref={webViewRef}
+          source={{ uri: sourceUrl }}
+          style={webViewStyles.webView}
+          onShouldStartLoadWithRequest={handleShouldStartLoad}
+          onNavigationStateChange={handleNavigationStateChange}
+          onMessage={handleMessage}
+          onError={handleError}
+          onLoadStart={handleLoadStart}
+          onLoadEnd={handleLoadEnd}
+          onHttpError={(syntheticEvent) => {
+            const { nativeEvent } = syntheticEvent;
+            console.log('WebView HTTP error:', nativeEvent);
+            setHasError(true);
+            setIsLoading(false);
+          }}
+          onLoadProgress={(syntheticEvent) => {
+            const { nativeEvent } = syntheticEvent;
+            console.log('WebView load progress:', nativeEvent.progress);
+          }}
+          injectedJavaScript={bridgeScript}
+          javaScriptEnabled={true}
+          domStorageEnabled={true}
+          startInLoadingState={true}
+          scalesPageToFit={true}
+          allowsInlineMediaPlayback={true}
+          mediaPlaybackRequiresUserAction={false}
+          allowsFullscreenVideo={true}
+          mixedContentMode="compatibility"
+          thirdPartyCookiesEnabled={true}
+          sharedCookiesEnabled={true}
+          cacheEnabled={true}
+          incognito={false}
+          userAgent="Mozilla/5.0 (Linux; Android 10; Mobile) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/91.0.4472.120 Mobile Safari/537.36 PastorAgendaApp/1.0.0"
+        />
+      )}
+      {(!isWebViewMounted || isLoading) && (
+        <View style={webViewStyles.loadingContainer}>
+          <ActivityIndicator size="large" color={env.PRIMARY_COLOR} />
+        </View>
+      )}
     </View>
   );
 };
@@ -0,0 +1,992 @@
+import * as Crypto from 'expo-crypto';
+import type { DownloadActionResult, DownloadInfo } from '../services/downloadManagerService';
+import type { ExternalLinkResult, OpenUrlMode } from '../services/externalLinkService';
+import type {
+  AudioQuality,
+  AudioRecordingStatus,
+  LocationResult,
+  MediaPickResult,
+  MediaResult,
+  PickMediaOptions,
+  ProcessedImageResult,
+  ProcessImageOptions,
+  RecordVideoOptions,
+  VideoResult,
+} from '../services/mediaService';
+import type {
+  NotificationPreferences,
+  NotificationPreferencesResult,
+} from '../services/notificationPreferencesService';
+import type { OutboxEntry, OutboxMethod, OutboxResult } from '../services/outboxService';
+import type {
+  NotificationOpened,
+  NotificationPresentationRule,
+  NotificationReceived,
+} from '../services/pushNotificationService';
+import type { ReminderInput, ReminderResult, ScheduledReminder } from '../services/reminderService';
+import type { ApiResponse, UploadProgress } from '../services/requests';
+import type { UploadActionResult, UploadInfo } from '../services/uploadManagerService';
+
+// Bump when a request or response shape changes incompatibly. Web builds
+// announce the version they were built against in the BRIDGE_READY handshake.
+export const BRIDGE_PROTOCOL_VERSION = 1;
+export const MIN_SUPPORTED_PROTOCOL_VERSION = 1;
+
+export type BridgePermission = 'camera' | 'microphone' | 'location' | 'media_library';
+
+export type EmptyRequest = Record<string, never>;
+
+export interface BridgeResult {
+  success: boolean;
+  error?: string;
+}
+
+export interface HandshakeRequest {
+  protocolVersion: number;
+}
+
+export interface HandshakeResult {
+  accepted: boolean;
+  protocolVersion: number;
+  minProtocolVersion: number;
+}
+
+export interface PermissionsRequest {
+  permissions: BridgePermission[];
+}
+
+export interface PermissionsResult {
+  granted: boolean;
+  permissions: BridgePermission[];
+}
+
+export interface CaptureOptions {
+  allowsEditing?: boolean;
+  aspect?: number[];
+  quality?: number;
+}
+
+export interface AudioRecordingRequest {
+  quality?: AudioQuality;
+  // Recording stops on its own at this length; unlimited when omitted
+  maxDurationMs?: number;
+  // How often AUDIO_RECORDING_STATUS events are sent while recording
+  statusIntervalMs?: number;
+}
+
+export interface ProcessImageRequest extends ProcessImageOptions {
+  uri: string;
+}
+
+export interface DownloadFileRequest {
+  url: string;
+  fileName?: string;
+  headers?: Record<string, string>;
+  // false replies as soon as the download is queued; follow it with DOWNLOAD_PROGRESS
+  wait?: boolean;
+}
+
+export interface DownloadFileResult extends BridgeResult {
+  downloadId?: string;
+  uri?: string;
+  fileName?: string;
+  fileSize?: number;
+  mimeType?: string;
+  // HTTP status
+  status?: number;
+}
+
+export interface DownloadActionRequest {
+  downloadId: string;
+}
+
+export interface ListDownloadsResult extends BridgeResult {
+  downloads?: DownloadInfo[];
+  // Finished files in the downloads directory
+  files?: { name: string; uri: string; size: number; modificationTime: number }[];
+}
+
+export interface ReadFileRequest {
+  uri: string;
+  // Byte offset to start reading from
+  position?: number;
+  // Bytes to read; defaults to READ_FILE_CHUNK_SIZE
+  length?: number;
+}
+
+export interface ReadFileResult extends BridgeResult {
+  // Base64 encoded bytes; chunks of a multiple of 3 bytes can be concatenated
+  data?: string;
+  position?: number;
+  length?: number;
+  // Total file size in bytes
+  size?: number;
+  mimeType?: string;
+  // True when this chunk reaches the end of the file
+  done?: boolean;
+}
+
+export interface UploadFileRequest {
+  // Local file returned by an earlier bridge call
+  uri: string;
+  url: string;
+  method?: 'POST' | 'PUT' | 'PATCH';
+  fieldName?: string;
+  headers?: Record<string, string>;
+  // Extra form fields sent alongside the file
+  parameters?: Record<string, unknown>;
+  mimeType?: string;
+  // Send through the resumable (tus) upload queue; url is the creation endpoint
+  resumable?: boolean;
+  // tus Upload-Metadata for resumable uploads
+  metadata?: Record<string, string>;
+  // Resumable only: false replies as soon as the upload is queued; follow it
+  // with RESUMABLE_UPLOAD_PROGRESS
+  wait?: boolean;
+}
+
+export interface UploadFileResult extends BridgeResult {
+  status?: number;
+  // Server response, parsed as JSON when possible
+  data?: unknown;
+  // Set for resumable uploads
+  uploadId?: string;
+  uploadUrl?: string;
+}
+
+export interface UploadFilesRequest {
+  files: { uri: string; fieldName?: string; name?: string; mimeType?: string }[];
+  url: string;
+  method?: 'POST' | 'PUT' | 'PATCH';
+  headers?: Record<string, string>;
+  parameters?: Record<string, unknown>;
+}
+
+export interface UploadProgressEvent extends UploadProgress {
+  // Id of the UPLOAD_FILE or UPLOAD_FILES call this progress belongs to
+  requestId?: string;
+  // Absent for UPLOAD_FILES, where progress covers all files together
+  uri?: string;
+}
+
+export interface UploadActionRequest {
+  uploadId: string;
+}
+
+export interface ListUploadsResult extends BridgeResult {
+  uploads?: UploadInfo[];
+}
+
+export interface SaveToGalleryRequest {
+  uri: string;
+}
+
+export interface SaveToGalleryResult extends BridgeResult {
+  assetId?: string;
+  uri?: string;
+}
+
+export interface ShareFileRequest {
+  uri: string;
+  mimeType?: string;
+}
+
+export interface DocumentPickResult extends BridgeResult {
+  uri?: string;
+  name?: string;
+  size?: number;
+  mimeType?: string;
+}
+
+export interface VibrateRequest {
+  pattern?: number[];
+}
+
+export interface AlertButton {
+  text: string;
+  style?: 'default' | 'cancel' | 'destructive';
+}
+
+export interface ShowAlertRequest {
+  title?: string;
+  message?: string;
+  buttons?: AlertButton[];
+}
+
+export interface DeviceInfoResult extends BridgeResult {
+  deviceInfo?: {
+    platform: string;
+    version: string | number;
+    isDevice: boolean;
+  };
+}
+
+export interface UserInfoRequest {
+  userId?: string;
+  userEmail?: string;
+  // Supabase access token; stored natively and used for native API calls
+  userToken?: string;
+  // Lets native refresh the access token while the page is not running
+  refreshToken?: string;
+  // Epoch seconds, as in Supabase's session.expires_at
+  expiresAt?: number;
+}
+
+// Native refreshed the session while the web app was not doing so, or lost it.
+// Supabase refresh tokens are single-use: the web app must adopt these tokens
+// (supabase.auth.setSession) instead of refreshing with the one it holds
+export interface AuthSessionChangedEvent {
+  reason: 'refreshed' | 'expired';
+  // null once the session expired and could not be refreshed
+  session: {
+    accessToken: string;
+    refreshToken?: string;
+    // Epoch seconds, as in USER_AUTH
+    expiresAt?: number;
+    userId?: string;
+    userEmail?: string;
+  } | null;
+}
+
+export interface UserInfoResult extends BridgeResult {
+  userId?: string;
+  userEmail?: string;
+}
+
+export interface OpenUrlRequest {
+  url: string;
+  // 'auto' opens app links in the WebView, other websites in the in-app browser
+  // and mail, phone, SMS and map links in the matching system app
+  mode?: OpenUrlMode;
+}
+
+export interface QueueRequestRequest {
+  // Path on the API, or an absolute URL on the API or an allowed origin
+  url: string;
+  method: OutboxMethod;
+  body?: unknown;
+  headers?: Record<string, string>;
+  // Reuse the same key when retrying the same logical action
+  idempotencyKey?: string;
+}
+
+export interface ListOutboxResult extends BridgeResult {
+  pending?: OutboxEntry[];
+}
+
+export interface LogoutResult extends BridgeResult {
+  // False when the unbind request is still waiting in the outbox
+  deviceUnbound?: boolean;
+  // Requests the previous user queued offline; they are dropped, not sent as the next user
+  discardedRequests?: number;
+}
+
+export interface PageSnapshotRequest {
+  url: string;
+  title?: string;
+  html: string;
+}
+
+export interface CancelRequest {
+  requestId: string;
+}
+
+export interface CancelResult {
+  cancelled: boolean;
+}
+
+export interface PushTokenResult {
+  token: string | null;
+  isRegistered: boolean;
+}
+
+export interface NotificationPresentationRequest {
+  rules: NotificationPresentationRule[];
+}
+
+export interface CancelReminderRequest {
+  key: string;
+}
+
+export interface CancelReminderResult extends BridgeResult {
+  // False when no reminder with the key was scheduled
+  cancelled: boolean;
+}
+
+export interface ListRemindersResult extends BridgeResult {
+  reminders?: ScheduledReminder[];
+}
+
+export type NotificationPreferencesRequest = Partial<NotificationPreferences>;
+
+export interface GetNotificationPreferencesResult extends NotificationPreferencesResult {
+  // This device's entry for muted_device_ids; null before push registration
+  deviceId: string | null;
+}
+
+// Every message the web app may send, paired with the payload native replies with.
+export interface BridgeRequestMap {
+  BRIDGE_READY: { request: HandshakeRequest; response: HandshakeResult };
+  REQUEST_PERMISSIONS: { request: PermissionsRequest; response: PermissionsResult };
+  TAKE_PHOTO: { request: CaptureOptions; response: MediaResult };
+  PICK_IMAGE: { request: PickMediaOptions; response: MediaPickResult };
+  RECORD_VIDEO: { request: RecordVideoOptions; response: VideoResult };
+  RECORD_AUDIO: { request: AudioRecordingRequest; response: MediaResult };
+  START_AUDIO_RECORDING: { request: AudioRecordingRequest; response: MediaResult };
+  PAUSE_AUDIO_RECORDING: { request: EmptyRequest; response: MediaResult };
+  RESUME_AUDIO_RECORDING: { request: EmptyRequest; response: MediaResult };
+  STOP_AUDIO_RECORDING: { request: EmptyRequest; response: MediaResult };
+  CANCEL_AUDIO_RECORDING: { request: EmptyRequest; response: MediaResult };
+  PROCESS_IMAGE: { request: ProcessImageRequest; response: ProcessedImageResult };
+  GET_LOCATION: { request: EmptyRequest; response: LocationResult };
+  DOWNLOAD_FILE: { request: DownloadFileRequest; response: DownloadFileResult };
+  PAUSE_DOWNLOAD: { request: DownloadActionRequest; response: DownloadActionResult };
+  RESUME_DOWNLOAD: { request: DownloadActionRequest; response: DownloadActionResult };
+  CANCEL_DOWNLOAD: { request: DownloadActionRequest; response: DownloadActionResult };
+  LIST_DOWNLOADS: { request: EmptyRequest; response: ListDownloadsResult };
+  SAVE_TO_GALLERY: { request: SaveToGalleryRequest; response: SaveToGalleryResult };
+  READ_FILE: { request: ReadFileRequest; response: ReadFileResult };
+  UPLOAD_FILE: { request: UploadFileRequest; response: UploadFileResult };
+  UPLOAD_FILES: { request: UploadFilesRequest; response: UploadFileResult };
+  PAUSE_UPLOAD: { request: UploadActionRequest; response: UploadActionResult };
+  RESUME_UPLOAD: { request: UploadActionRequest; response: UploadActionResult };
+  CANCEL_UPLOAD: { request: UploadActionRequest; response: UploadActionResult };
+  LIST_UPLOADS: { request: EmptyRequest; response: ListUploadsResult };
+  SHARE_FILE: { request: ShareFileRequest; response: BridgeResult };
+  PICK_DOCUMENT: { request: EmptyRequest; response: DocumentPickResult };
+  VIBRATE: { request: VibrateRequest; response: BridgeResult };
+  SHOW_ALERT: { request: ShowAlertRequest; response: BridgeResult };
+  GET_DEVICE_INFO: { request: EmptyRequest; response: DeviceInfoResult };
+  UPDATE_USER_INFO: { request: UserInfoRequest; response: UserInfoResult };
+  USER_AUTH: { request: UserInfoRequest; response: UserInfoResult };
+  USER_LOGOUT: { request: EmptyRequest; response: LogoutResult };
+  OPEN_URL: { request: OpenUrlRequest; response: ExternalLinkResult };
+  GET_PUSH_TOKEN: { request: EmptyRequest; response: PushTokenResult };
+  SET_NOTIFICATION_PRESENTATION: { request: NotificationPresentationRequest; response: BridgeResult };
+  SCHEDULE_REMINDER: { request: ReminderInput; response: ReminderResult };
+  CANCEL_REMINDER: { request: CancelReminderRequest; response: CancelReminderResult };
+  LIST_SCHEDULED_REMINDERS: { request: EmptyRequest; response: ListRemindersResult };
+  GET_NOTIFICATION_PREFERENCES: { request: EmptyRequest; response: GetNotificationPreferencesResult };
+  UPDATE_NOTIFICATION_PREFERENCES: { request: NotificationPreferencesRequest; response: NotificationPreferencesResult };
+  OPEN_NOTIFICATION_SETTINGS: { request: EmptyRequest; response: BridgeResult };
+  SAVE_PAGE_SNAPSHOT: { request: PageSnapshotRequest; response: BridgeResult };
+  QUEUE_REQUEST: { request: QueueRequestRequest; response: ApiResponse };
+  LIST_OUTBOX: { request: EmptyRequest; response: ListOutboxResult };
+  CANCEL_REQUEST: { request: CancelRequest; response: CancelResult };
+}
+
+// Messages native pushes to the web app without a matching request.
+export interface BridgeEventMap {
+  PUSH_TOKEN: PushTokenResult;
+  // A link the page navigated to was routed out of the WebView
+  EXTERNAL_URL_OPENED: ExternalLinkResult;
+  // Live duration and input level while a recording is active, plus its final state
+  AUDIO_RECORDING_STATUS: AudioRecordingStatus;
+  UPLOAD_PROGRESS: UploadProgressEvent;
+  // Every state change of a queued download, plus throttled progress while it runs
+  DOWNLOAD_PROGRESS: DownloadInfo;
+  // Every state change of a resumable upload, plus throttled progress while it runs
+  RESUMABLE_UPLOAD_PROGRESS: UploadInfo;
+  // Final outcome of a request that was queued while offline
+  OUTBOX_RESULT: OutboxResult;
+  // The user tapped a notification; sent to the page it navigated to, if any
+  NOTIFICATION_OPENED: NotificationOpened;
+  // A notification arrived while the app was in the foreground, with how it was shown
+  NOTIFICATION_RECEIVED: NotificationReceived;
+  AUTH_SESSION_CHANGED: AuthSessionChangedEvent;
+}
+
+export type BridgeRequestType = keyof BridgeRequestMap;
+export type BridgeEventType = keyof BridgeEventMap;
+export type BridgeRequest<K extends BridgeRequestType> = BridgeRequestMap[K]['request'];
+export type BridgeResponse<K extends BridgeRequestType> = BridgeRequestMap[K]['response'];
+
+export interface BridgeMessage<K extends BridgeRequestType = BridgeRequestType> {
+  type: K;
+  data: BridgeRequest<K>;
+  id?: string;
+  // Per-session secret injected by bridgeScript; messages without it are dropped
+  nonce?: string;
+}
+
+// Passed to native handlers alongside the payload. The signal aborts when the
+// web app cancels the call with CANCEL_REQUEST.
+export interface BridgeCallContext {
+  id?: string;
+  signal: AbortSignal;
+}
+
+export interface BridgeErrorData {
+  error: string;
+  type: string;
+  code: 'INVALID_MESSAGE' | 'UNKNOWN_TYPE' | 'INCOMPATIBLE_PROTOCOL' | 'HANDLER_ERROR';
+}
+
+export interface OutgoingBridgeMessage {
+  type: string;
+  data?: unknown;
+  id?: string;
+}
+
+type FieldType = 'string' | 'number' | 'boolean' | 'array' | 'object';
+
+export interface FieldSpec {
+  type: FieldType;
+  required?: boolean;
+  // Element type for arrays
+  items?: Exclude<FieldType, 'array'>;
+  // Allowed values for strings, or for the elements of string arrays
+  values?: readonly string[];
+}
+
+export type BridgeSchema<T> = { [F in keyof T]-?: FieldSpec };
+
+export interface BridgeMethodSpec<K extends BridgeRequestType> {
+  // Message type native replies with
+  responseType: string;
+  // Reply type used instead of responseType when the result is unsuccessful
+  failureType?: string;
+  // Name of the ReactNativeBridge method exposed to the web app
+  method: string;
+  // Positional argument names; without them the method takes one options object
+  params?: (keyof BridgeRequest<K> & string)[];
+  // Milliseconds the web client waits for a reply; 0 waits forever
+  timeout?: number;
+  schema: BridgeSchema<BridgeRequest<K>>;
+}
+
+export const DEFAULT_BRIDGE_TIMEOUT = 30 * 1000;
+// 3 bytes per 4 base64 characters, so consecutive chunks concatenate cleanly
+export const READ_FILE_CHUNK_SIZE = 3 * 64 * 1024;
+// Calls that wait on the user (camera, pickers, alerts) get a generous timeout
+const USER_INTERACTION_TIMEOUT = 5 * 60 * 1000;
+
+const PERMISSIONS: readonly BridgePermission[] = ['camera', 'microphone', 'location', 'media_library'];
+
+const captureSchema: BridgeSchema<CaptureOptions> = {
+  allowsEditing: { type: 'boolean' },
+  aspect: { type: 'array', items: 'number' },
+  quality: { type: 'number' },
+};
+
+const audioRecordingSchema: BridgeSchema<AudioRecordingRequest> = {
+  quality: { type: 'string', values: ['low', 'high'] },
+  maxDurationMs: { type: 'number' },
+  statusIntervalMs: { type: 'number' },
+};
+
+const downloadActionSchema: BridgeSchema<DownloadActionRequest> = {
+  downloadId: { type: 'string', required: true },
+};
+
+const uploadActionSchema: BridgeSchema<UploadActionRequest> = {
+  uploadId: { type: 'string', required: true },
+};
+
+const userInfoSchema: BridgeSchema<UserInfoRequest> = {
+  userId: { type: 'string' },
+  userEmail: { type: 'string' },
+  userToken: { type: 'string' },
+  refreshToken: { type: 'string' },
+  expiresAt: { type: 'number' },
+};
+
+export const BRIDGE_METHODS: { [K in BridgeRequestType]: BridgeMethodSpec<K> } = {
+  BRIDGE_READY: {
+    responseType: 'BRIDGE_HANDSHAKE',
+    method: 'handshake',
+    params: ['protocolVersion'],
+    schema: { protocolVersion: { type: 'number', required: true } },
+  },
+  REQUEST_PERMISSIONS: {
+    responseType: 'PERMISSIONS_RESULT',
+    method: 'requestPermissions',
+    params: ['permissions'],
+    timeout: USER_INTERACTION_TIMEOUT,
+    schema: { permissions: { type: 'array', items: 'string', values: PERMISSIONS, required: true } },
+  },
+  TAKE_PHOTO: {
+    responseType: 'PHOTO_RESULT',
+    method: 'takePhoto',
+    timeout: USER_INTERACTION_TIMEOUT,
+    schema: captureSchema,
+  },
+  PICK_IMAGE: {
+    responseType: 'IMAGE_PICK_RESULT',
+    method: 'pickImage',
+    timeout: USER_INTERACTION_TIMEOUT,
+    schema: {
+      ...captureSchema,
+      mediaType: { type: 'string', values: ['images', 'videos', 'all'] },
+      selectionLimit: { type: 'number' },
+      exif: { type: 'boolean' },
+      videoMaxDuration: { type: 'number' },
+    },
+  },
+  RECORD_VIDEO: {
+    responseType: 'VIDEO_RECORD_RESULT',
+    method: 'recordVideo',
+    timeout: USER_INTERACTION_TIMEOUT,
+    schema: {
+      maxDurationMs: { type: 'number' },
+      quality: { type: 'string', values: ['low', 'medium', 'high'] },
+      maxBytes: { type: 'number' },
+      camera: { type: 'string', values: ['front', 'back'] },
+      posterTimeMs: { type: 'number' },
+    },
+  },
+  // Records one clip and replies when it stops (10 seconds unless maxDurationMs says otherwise)
+  RECORD_AUDIO: {
+    responseType: 'AUDIO_RECORD_RESULT',
+    method: 'recordAudio',
+    timeout: 0,
+    schema: audioRecordingSchema,
+  },
+  START_AUDIO_RECORDING: {
+    responseType: 'AUDIO_RECORDING_STARTED',
+    method: 'startAudioRecording',
+    timeout: USER_INTERACTION_TIMEOUT,
+    schema: audioRecordingSchema,
+  },
+  PAUSE_AUDIO_RECORDING: {
+    responseType: 'AUDIO_RECORDING_PAUSED',
+    method: 'pauseAudioRecording',
+    schema: {},
+  },
+  RESUME_AUDIO_RECORDING: {
+    responseType: 'AUDIO_RECORDING_RESUMED',
+    method: 'resumeAudioRecording',
+    schema: {},
+  },
+  STOP_AUDIO_RECORDING: {
+    responseType: 'AUDIO_RECORD_RESULT',
+    method: 'stopAudioRecording',
+    schema: {},
+  },
+  CANCEL_AUDIO_RECORDING: {
+    responseType: 'AUDIO_RECORDING_CANCELLED',
+    method: 'cancelAudioRecording',
+    schema: {},
+  },
+  PROCESS_IMAGE: {
+    responseType: 'PROCESS_IMAGE_RESULT',
+    method: 'processImage',
+    timeout: 2 * 60 * 1000,
+    schema: {
+      uri: { type: 'string', required: true },
+      maxWidth: { type: 'number' },
+      maxHeight: { type: 'number' },
+      format: { type: 'string', values: ['jpeg', 'png', 'webp'] },
+      quality: { type: 'number' },
+      maxBytes: { type: 'number' },
+      thumbnailSize: { type: 'number' },
+    },
+  },
+  GET_LOCATION: {
+    responseType: 'LOCATION_RESULT',
+    method: 'getLocation',
+    schema: {},
+  },
+  DOWNLOAD_FILE: {
+    responseType: 'DOWNLOAD_RESULT',
+    method: 'downloadFile',
+    params: ['url', 'fileName', 'headers', 'wait'],
+    timeout: 0,
+    schema: {
+      url: { type: 'string', required: true },
+      fileName: { type: 'string' },
+      headers: { type: 'object' },
+      wait: { type: 'boolean' },
+    },
+  },
+  PAUSE_DOWNLOAD: {
+    responseType: 'DOWNLOAD_PAUSED',
+    method: 'pauseDownload',
+    params: ['downloadId'],
+    schema: downloadActionSchema,
+  },
+  RESUME_DOWNLOAD: {
+    responseType: 'DOWNLOAD_RESUMED',
+    method: 'resumeDownload',
+    params: ['downloadId'],
+    schema: downloadActionSchema,
+  },
+  CANCEL_DOWNLOAD: {
+    responseType: 'DOWNLOAD_CANCELLED',
+    method: 'cancelDownload',
+    params: ['downloadId'],
+    schema: downloadActionSchema,
+  },
+  LIST_DOWNLOADS: {
+    responseType: 'DOWNLOADS_LIST',
+    method: 'listDownloads',
+    schema: {},
+  },
+  SAVE_TO_GALLERY: {
+    responseType: 'SAVE_GALLERY_RESULT',
+    method: 'saveToGallery',
+    params: ['uri'],
+    schema: { uri: { type: 'string', required: true } },
+  },
+  READ_FILE: {
+    responseType: 'FILE_CHUNK',
+    method: 'readFile',
+    params: ['uri', 'position', 'length'],
+    schema: {
+      uri: { type: 'string', required: true },
+      position: { type: 'number' },
+      length: { type: 'number' },
+    },
+  },
+  UPLOAD_FILE: {
+    responseType: 'UPLOAD_RESULT',
+    method: 'uploadFile',
+    // Large uploads report UPLOAD_PROGRESS instead of racing a timeout
+    timeout: 0,
+    schema: {
+      uri: { type: 'string', required: true },
+      url: { type: 'string', required: true },
+      method: { type: 'string', values: ['POST', 'PUT', 'PATCH'] },
+      fieldName: { type: 'string' },
+      headers: { type: 'object' },
+      parameters: { type: 'object' },
+      mimeType: { type: 'string' },
+      resumable: { type: 'boolean' },
+      metadata: { type: 'object' },
+      wait: { type: 'boolean' },
+    },
+  },
+  UPLOAD_FILES: {
+    responseType: 'UPLOAD_RESULT',
+    method: 'uploadFiles',
+    timeout: 0,
+    schema: {
+      files: { type: 'array', items: 'object', required: true },
+      url: { type: 'string', required: true },
+      method: { type: 'string', values: ['POST', 'PUT', 'PATCH'] },
+      headers: { type: 'object' },
+      parameters: { type: 'object' },
+    },
+  },
+  PAUSE_UPLOAD: {
+    responseType: 'UPLOAD_PAUSED',
+    method: 'pauseUpload',
+    params: ['uploadId'],
+    schema: uploadActionSchema,
+  },
+  RESUME_UPLOAD: {
+    responseType: 'UPLOAD_RESUMED',
+    method: 'resumeUpload',
+    params: ['uploadId'],
+    schema: uploadActionSchema,
+  },
+  CANCEL_UPLOAD: {
+    responseType: 'UPLOAD_CANCELLED',
+    method: 'cancelUpload',
+    params: ['uploadId'],
+    schema: uploadActionSchema,
+  },
+  LIST_UPLOADS: {
+    responseType: 'UPLOADS_LIST',
+    method: 'listUploads',
+    schema: {},
+  },
+  SHARE_FILE: {
+    responseType: 'SHARE_RESULT',
+    method: 'shareFile',
+    params: ['uri', 'mimeType'],
+    timeout: USER_INTERACTION_TIMEOUT,
+    schema: {
+      uri: { type: 'string', required: true },
+      mimeType: { type: 'string' },
+    },
+  },
+  PICK_DOCUMENT: {
+    responseType: 'DOCUMENT_PICK_RESULT',
+    method: 'pickDocument',
+    timeout: USER_INTERACTION_TIMEOUT,
+    schema: {},
+  },
+  VIBRATE: {
+    responseType: 'VIBRATE_RESULT',
+    method: 'vibrate',
+    params: ['pattern'],
+    schema: { pattern: { type: 'array', items: 'number' } },
+  },
+  SHOW_ALERT: {
+    responseType: 'ALERT_RESULT',
+    method: 'showAlert',
+    params: ['title', 'message', 'buttons'],
+    timeout: USER_INTERACTION_TIMEOUT,
+    schema: {
+      title: { type: 'string' },
+      message: { type: 'string' },
+      buttons: { type: 'array', items: 'object' },
+    },
+  },
+  GET_DEVICE_INFO: {
+    responseType: 'DEVICE_INFO_RESULT',
+    method: 'getDeviceInfo',
+    schema: {},
+  },
+  UPDATE_USER_INFO: {
+    responseType: 'USER_INFO_UPDATED',
+    failureType: 'USER_INFO_UPDATE_ERROR',
+    method: 'updateUserInfo',
+    schema: userInfoSchema,
+  },
+  USER_AUTH: {
+    responseType: 'USER_INFO_UPDATED',
+    failureType: 'USER_INFO_UPDATE_ERROR',
+    method: 'updateUserAuth',
+    params: ['userId', 'userEmail', 'userToken', 'refreshToken', 'expiresAt'],
+    schema: userInfoSchema,
+  },
+  // Detaches the user from this device and wipes what they left on it
+  USER_LOGOUT: {
+    responseType: 'USER_LOGGED_OUT',
+    failureType: 'USER_LOGOUT_ERROR',
+    method: 'logout',
+    schema: {},
+  },
+  OPEN_URL: {
+    responseType: 'OPEN_URL_RESULT',
+    method: 'openUrl',
+    params: ['url', 'mode'],
+    // The in-app browser reports back only once the user closes it
+    timeout: 0,
+    schema: {
+      url: { type: 'string', required: true },
+      mode: { type: 'string', values: ['auto', 'in_app', 'system', 'webview'] },
+    },
+  },
+  GET_PUSH_TOKEN: {
+    responseType: 'PUSH_TOKEN',
+    method: 'getPushToken',
+    schema: {},
+  },
+  // Decides per category whether foreground notifications banner, sound or badge
+  SET_NOTIFICATION_PRESENTATION: {
+    responseType: 'NOTIFICATION_PRESENTATION_SET',
+    failureType: 'NOTIFICATION_PRESENTATION_ERROR',
+    method: 'setNotificationPresentation',
+    params: ['rules'],
+    schema: { rules: { type: 'array', items: 'object', required: true } },
+  },
+  // Schedules or, for a key already in use, reschedules a local reminder
+  SCHEDULE_REMINDER: {
+    responseType: 'REMINDER_SCHEDULED',
+    failureType: 'REMINDER_SCHEDULE_ERROR',
+    method: 'scheduleReminder',
+    schema: {
+      key: { type: 'string', required: true },
+      title: { type: 'string', required: true },
+      body: { type: 'string' },
+      date: { type: 'string', required: true },
+      timeZone: { type: 'string' },
+      repeat: { type: 'string', values: ['none', 'daily', 'weekly'] },
+      data: { type: 'object' },
+      categoryId: { type: 'string' },
+    },
+  },
+  CANCEL_REMINDER: {
+    responseType: 'REMINDER_CANCELLED',
+    failureType: 'REMINDER_CANCEL_ERROR',
+    method: 'cancelReminder',
+    params: ['key'],
+    schema: { key: { type: 'string', required: true } },
+  },
+  LIST_SCHEDULED_REMINDERS: {
+    responseType: 'SCHEDULED_REMINDERS_LIST',
+    method: 'listScheduledReminders',
+    schema: {},
+  },
+  // Preferences live on the server and are honoured by send-notification
+  GET_NOTIFICATION_PREFERENCES: {
+    responseType: 'NOTIFICATION_PREFERENCES',
+    failureType: 'NOTIFICATION_PREFERENCES_ERROR',
+    method: 'getNotificationPreferences',
+    schema: {},
+  },
+  UPDATE_NOTIFICATION_PREFERENCES: {
+    responseType: 'NOTIFICATION_PREFERENCES_UPDATED',
+    failureType: 'NOTIFICATION_PREFERENCES_ERROR',
+    method: 'updateNotificationPreferences',
+    schema: {
+      appointments_enabled: { type: 'boolean' },
+      reminders_enabled: { type: 'boolean' },
+      prayer_requests_enabled: { type: 'boolean' },
+      announcements_enabled: { type: 'boolean' },
+      system_enabled: { type: 'boolean' },
+      quiet_hours_enabled: { type: 'boolean' },
+      quiet_hours_start: { type: 'string' },
+      quiet_hours_end: { type: 'string' },
+      time_zone: { type: 'string' },
+      muted_device_ids: { type: 'array', items: 'string' },
+    },
+  },
+  // Opens the native notification settings screen on top of the WebView
+  OPEN_NOTIFICATION_SETTINGS: {
+    responseType: 'NOTIFICATION_SETTINGS_OPENED',
+    method: 'openNotificationSettings',
+    schema: {},
+  },
+  // Sent by the injected script after each page load; the page may also call
+  // savePageSnapshot() once it has rendered content worth keeping offline
+  SAVE_PAGE_SNAPSHOT: {
+    responseType: 'PAGE_SNAPSHOT_SAVED',
+    method: 'savePageSnapshot',
+    schema: {
+      url: { type: 'string', required: true },
+      title: { type: 'string' },
+      html: { type: 'string', required: true },
+    },
+  },
+  // Sends the request now when possible, otherwise keeps it in the outbox and
+  // reports the eventual outcome as an OUTBOX_RESULT event
+  QUEUE_REQUEST: {
+    responseType: 'QUEUE_REQUEST_RESULT',
+    method: 'queueRequest',
+    schema: {
+      url: { type: 'string', required: true },
+      method: { type: 'string', values: ['POST', 'PUT', 'DELETE', 'PATCH'], required: true },
+      body: { type: 'object' },
+      headers: { type: 'object' },
+      idempotencyKey: { type: 'string' },
+    },
+  },
+  LIST_OUTBOX: {
+    responseType: 'OUTBOX_LIST',
+    method: 'listOutbox',
+    schema: {},
+  },
+  CANCEL_REQUEST: {
+    responseType: 'CANCEL_RESULT',
+    method: 'cancelRequest',
+    params: ['requestId'],
+    schema: { requestId: { type: 'string', required: true } },
+  },
+};
+
+export const createBridgeNonce = (): string => Crypto.randomUUID();
+
+export const isBridgeRequestType = (type: unknown): type is BridgeRequestType =>
+  typeof type === 'string' && Object.prototype.hasOwnProperty.call(BRIDGE_METHODS, type);
+
+export const isProtocolVersionSupported = (version: number): boolean =>
+  version >= MIN_SUPPORTED_PROTOCOL_VERSION && version <= BRIDGE_PROTOCOL_VERSION;
+
+const matchesType = (value: unknown, type: FieldType): boolean => {
+  switch (type) {
+    case 'array':
+      return Array.isArray(value);
+    case 'object':
+      return typeof value === 'object' && value !== null && !Array.isArray(value);
+    case 'number':
+      return typeof value === 'number' && !Number.isNaN(value);
+    default:
+      return typeof value === type;
+  }
+};
+
+// Returns a description of the first problem found, or null when the payload is valid.
+// Keep in sync with validate() in bridgeScript.ts, which mirrors it on the web side.
+export const validateBridgeData = (schema: Record<string, FieldSpec>, data: unknown): string | null => {
+  if (!matchesType(data, 'object')) {
+    return 'data must be an object';
+  }
+
+  const payload = data as Record<string, unknown>;
+  for (const [field, spec] of Object.entries(schema)) {
+    const value = payload[field];
+    if (value === undefined || value === null) {
+      if (spec.required) {
+        return `${field} is required`;
+      }
+      continue;
+    }
+
+    if (!matchesType(value, spec.type)) {
+      return `${field} must be of type ${spec.type}`;
+    }
+
+    const elements = spec.type === 'array' ? (value as unknown[]) : [value];
+    for (const element of elements) {
+      if (spec.items && spec.type === 'array' && !matchesType(element, spec.items)) {
+        return `${field} must only contain values of type ${spec.items}`;
+      }
+      if (spec.values && !spec.values.includes(element as string)) {
+        return `${field} must be one of: ${spec.values.join(', ')}`;
+      }
+    }
+  }
+
+  return null;
+};
+
+// Payload fields that never go to the logs
+const SECRET_FIELDS = ['userToken', 'refreshToken', 'accessToken'];
+
+// A copy of a raw incoming message that is safe to log: no tokens, nonce,
+// Authorization headers or page HTML
+export const redactBridgeMessage = (raw: unknown): unknown => {
+  if (!matchesType(raw, 'object')) {
+    return raw;
+  }
+
+  const envelope: Record<string, unknown> = { ...(raw as Record<string, unknown>) };
+  if (envelope.nonce !== undefined) {
+    envelope.nonce = '[redacted]';
+  }
+  if (!matchesType(envelope.data, 'object')) {
+    return envelope;
+  }
+
+  const data: Record<string, unknown> = { ...(envelope.data as Record<string, unknown>) };
+  SECRET_FIELDS.forEach(field => {
+    if (data[field] !== undefined) {
+      data[field] = '[redacted]';
+    }
+  });
+  if (typeof data.html === 'string') {
+    data.html = `[${data.html.length} characters]`;
+  }
+  if (matchesType(data.headers, 'object')) {
+    data.headers = Object.fromEntries(Object.entries(data.headers as Record<string, unknown>)
+      .map(([name, value]) => [name, name.toLowerCase() === 'authorization' ? '[redacted]' : value]));
+  }
+  return { ...envelope, data };
+};
+
+export type ParsedBridgeMessage =
+  | { ok: true; message: BridgeMessage }
+  | { ok: false; id?: string; type: string; error: BridgeErrorData };
+
+export const parseBridgeMessage = (raw: unknown): ParsedBridgeMessage => {
+  const envelope = (matchesType(raw, 'object') ? raw : {}) as Record<string, unknown>;
+  const type = typeof envelope.type === 'string' ? envelope.type : 'UNKNOWN';
+  const id = typeof envelope.id === 'string' ? envelope.id : undefined;
+  const nonce = typeof envelope.nonce === 'string' ? envelope.nonce : undefined;
+
+  if (!isBridgeRequestType(envelope.type)) {
+    return {
+      ok: false,
+      id,
+      type,
+      error: { error: 'Unknown message type', type, code: 'UNKNOWN_TYPE' },
+    };
+  }
+
+  const data = envelope.data ?? {};
+  const problem = validateBridgeData(BRIDGE_METHODS[envelope.type].schema, data);
+  if (problem) {
+    return {
+      ok: false,
+      id,
+      type,
+      error: { error: `Invalid ${type} message: ${problem}`, type, code: 'INVALID_MESSAGE' },
+    };
+  }
+
+  return { ok: true, message: { type: envelope.type, data: data as BridgeRequest<BridgeRequestType>, id, nonce } };
+};
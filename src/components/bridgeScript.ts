@@ -0,0 +1,310 @@
+import type { OriginPattern } from '../services/originPolicyService';
+import { BRIDGE_METHODS, BRIDGE_PROTOCOL_VERSION, DEFAULT_BRIDGE_TIMEOUT } from './bridgeProtocol';
+
+export interface BridgeScriptOptions {
+  // Session secret every message must carry
+  nonce: string;
+  // Origins the bridge is installed on; other pages never see the nonce
+  allowedOrigins: OriginPattern[];
+}
+
+// Builds the JavaScript injected into the web app. Every ReactNativeBridge
+// method is generated from BRIDGE_METHODS, so the web client can only send
+// messages the native dispatcher understands.
+export const createBridgeScript = ({ nonce, allowedOrigins }: BridgeScriptOptions): string => {
+  const protocol = {
+    version: BRIDGE_PROTOCOL_VERSION,
+    defaultTimeout: DEFAULT_BRIDGE_TIMEOUT,
+    methods: BRIDGE_METHODS,
+  };
+
+  return `
+    (function() {
+      var ALLOWED_ORIGINS = ${JSON.stringify(allowedOrigins)};
+      var host = window.location.host.toLowerCase();
+      var isAllowed = ALLOWED_ORIGINS.some(function(pattern) {
+        if (pattern.protocol && pattern.protocol !== window.location.protocol) return false;
+        if (pattern.wildcard) return host.slice(-(pattern.host.length + 1)) === '.' + pattern.host;
+        return host === pattern.host;
+      });
+      if (!isAllowed) {
+        console.warn('ReactNativeBridge is not available on ' + window.location.origin);
+        return;
+      }
+
+      console.log('WebView bridge initialized');
+
+      var PROTOCOL = ${JSON.stringify(protocol)};
+      var NONCE = ${JSON.stringify(nonce)};
+
+      function generateId() {
+        return 'msg_' + Date.now() + '_' + Math.random().toString(36).substr(2, 9);
+      }
+
+      function matchesType(value, type) {
+        if (type === 'array') return Array.isArray(value);
+        if (type === 'object') return typeof value === 'object' && value !== null && !Array.isArray(value);
+        if (type === 'number') return typeof value === 'number' && !isNaN(value);
+        return typeof value === type;
+      }
+
+      // Mirrors validateBridgeData in bridgeProtocol.ts
+      function validate(schema, data) {
+        if (!matchesType(data, 'object')) return 'data must be an object';
+        var fields = Object.keys(schema);
+        for (var i = 0; i < fields.length; i++) {
+          var field = fields[i];
+          var spec = schema[field];
+          var value = data[field];
+          if (value === undefined || value === null) {
+            if (spec.required) return field + ' is required';
+            continue;
+          }
+          if (!matchesType(value, spec.type)) return field + ' must be of type ' + spec.type;
+          var elements = spec.type === 'array' ? value : [value];
+          for (var j = 0; j < elements.length; j++) {
+            if (spec.items && spec.type === 'array' && !matchesType(elements[j], spec.items)) {
+              return field + ' must only contain values of type ' + spec.items;
+            }
+            if (spec.values && spec.values.indexOf(elements[j]) === -1) {
+              return field + ' must be one of: ' + spec.values.join(', ');
+            }
+          }
+        }
+        return null;
+      }
+
+      function post(message) {
+        message.nonce = NONCE;
+        window.ReactNativeWebView.postMessage(JSON.stringify(message));
+      }
+
+      function createError(code, message, details) {
+        var error = new Error(message);
+        error.code = code;
+        if (details) error.details = details;
+        return error;
+      }
+
+      // Calls awaiting a reply from native, keyed by message id
+      var pending = {};
+      // Handlers for messages native sends without a matching call, keyed by type
+      var listeners = {};
+
+      function settle(messageId, error, result) {
+        var entry = pending[messageId];
+        if (!entry) return false;
+        delete pending[messageId];
+        if (entry.timer) clearTimeout(entry.timer);
+        if (entry.cleanup) entry.cleanup();
+        if (error) entry.reject(error);
+        else entry.resolve(result);
+        return true;
+      }
+
+      function cancel(messageId) {
+        var entry = pending[messageId];
+        if (!entry) return false;
+        settle(messageId, createError('CANCELLED', entry.type + ' was cancelled'));
+        // Let native abort work it may still be doing for this call
+        post({ type: 'CANCEL_REQUEST', data: { requestId: messageId }, id: generateId() });
+        return true;
+      }
+
+      function emit(message) {
+        var handlers = (listeners[message.type] || []).concat(listeners['*'] || []);
+        handlers.forEach(function(handler) {
+          try {
+            handler(message.data, message);
+          } catch (e) {
+            console.error('ReactNativeBridge listener failed for ' + message.type, e);
+          }
+        });
+      }
+
+      function receive(message) {
+        if (!message || typeof message.type !== 'string') return;
+        if (message.id && pending[message.id]) {
+          if (message.type === 'ERROR') {
+            var data = message.data || {};
+            settle(message.id, createError(data.code || 'HANDLER_ERROR', data.error || 'Bridge call failed', data));
+          } else {
+            settle(message.id, null, message.data);
+          }
+          return;
+        }
+        emit(message);
+      }
+
+      // Native replies arrive as window message events
+      window.addEventListener('message', function(event) {
+        if (typeof event.data !== 'string') return;
+        try {
+          receive(JSON.parse(event.data));
+        } catch (e) {
+          // Ignore messages that are not bridge replies
+        }
+      });
+
+      // options: { timeout: milliseconds (0 waits forever), signal: AbortSignal }
+      function call(type, data, options) {
+        options = options || {};
+        var messageId = generateId();
+        var promise = new Promise(function(resolve, reject) {
+          var spec = PROTOCOL.methods[type];
+          if (!spec) {
+            reject(createError('UNKNOWN_TYPE', 'Unknown bridge message type: ' + type));
+            return;
+          }
+
+          data = data || {};
+          var problem = validate(spec.schema, data);
+          if (problem) {
+            reject(createError('INVALID_MESSAGE', 'Invalid ' + type + ' message: ' + problem));
+            return;
+          }
+
+          if (options.signal && options.signal.aborted) {
+            reject(createError('CANCELLED', type + ' was cancelled'));
+            return;
+          }
+
+          var entry = { type: type, resolve: resolve, reject: reject };
+          var timeout = options.timeout !== undefined
+            ? options.timeout
+            : (spec.timeout !== undefined ? spec.timeout : PROTOCOL.defaultTimeout);
+          if (timeout > 0) {
+            entry.timer = setTimeout(function() {
+              if (settle(messageId, createError('TIMEOUT', type + ' timed out after ' + timeout + 'ms'))) {
+                post({ type: 'CANCEL_REQUEST', data: { requestId: messageId }, id: generateId() });
+              }
+            }, timeout);
+          }
+          if (options.signal) {
+            var onAbort = function() { cancel(messageId); };
+            options.signal.addEventListener('abort', onAbort);
+            entry.cleanup = function() { options.signal.removeEventListener('abort', onAbort); };
+          }
+          pending[messageId] = entry;
+
+          post({ type: type, data: data, id: messageId });
+        });
+
+        promise.id = messageId;
+        promise.cancel = function() { return cancel(messageId); };
+        return promise;
+      }
+
+      var bridge = {
+        protocolVersion: PROTOCOL.version,
+        compatible: null,
+
+        // Send a raw message to React Native without waiting for a reply
+        sendMessage: function(type, data) {
+          post({ type: type, data: data || {}, id: generateId() });
+        },
+
+        call: call,
+        cancel: cancel,
+        receive: receive,
+
+        // Subscribe to messages native sends on its own (e.g. PUSH_TOKEN); '*' receives all
+        on: function(type, handler) {
+          (listeners[type] = listeners[type] || []).push(handler);
+          return function() { bridge.off(type, handler); };
+        },
+
+        off: function(type, handler) {
+          listeners[type] = (listeners[type] || []).filter(function(h) { return h !== handler; });
+        }
+      };
+
+      // Generated methods take their payload (positional params or one options
+      // object) followed by optional call options ({ timeout, signal })
+      Object.keys(PROTOCOL.methods).forEach(function(type) {
+        var spec = PROTOCOL.methods[type];
+        bridge[spec.method] = function() {
+          var args = arguments;
+          var data = {};
+          var options;
+          if (spec.params) {
+            spec.params.forEach(function(name, index) {
+              if (args[index] !== undefined) data[name] = args[index];
+            });
+            options = args[spec.params.length];
+          } else {
+            if (args[0]) data = Object.assign({}, args[0]);
+            options = args[1];
+          }
+          return call(type, data, options);
+        };
+      });
+
+      // Web builds can pin the protocol they were built against by defining
+      // window.ReactNativeBridgeConfig = { protocolVersion: N } before load.
+      var handshake = bridge.handshake;
+      bridge.handshake = function(protocolVersion, options) {
+        var config = window.ReactNativeBridgeConfig || {};
+        return handshake(protocolVersion || config.protocolVersion || PROTOCOL.version, options).then(function(result) {
+          bridge.compatible = result.accepted;
+          if (!result.accepted) {
+            console.warn('ReactNativeBridge protocol ' + (protocolVersion || config.protocolVersion) +
+              ' is not supported by this app (supports ' + result.minProtocolVersion + '-' + result.protocolVersion + ')');
+          }
+          return result;
+        });
+      };
+
+      // Static copy of the rendered page for offline use. Same-origin styles are
+      // inlined because linked stylesheets will not load without a connection.
+      var savePageSnapshot = bridge.savePageSnapshot;
+      bridge.savePageSnapshot = function(options) {
+        var styles = [];
+        Array.prototype.forEach.call(document.styleSheets, function(sheet) {
+          try {
+            styles.push(Array.prototype.map.call(sheet.cssRules, function(rule) { return rule.cssText; }).join('\n'));
+          } catch (e) {
+            // Cross-origin stylesheets cannot be read
+          }
+        });
+        var root = document.documentElement.cloneNode(true);
+        Array.prototype.forEach.call(root.querySelectorAll('link[rel="stylesheet"], style'), function(node) {
+          node.parentNode.removeChild(node);
+        });
+        var style = document.createElement('style');
+        style.textContent = styles.join('\n');
+        var head = root.querySelector('head');
+        if (head) head.appendChild(style);
+
+        return savePageSnapshot({
+          url: window.location.href,
+          title: document.title,
+          html: '<!DOCTYPE html>' + root.outerHTML
+        }, options);
+      };
+
+      window.ReactNativeBridge = bridge;
+
+      // Notify that bridge is ready
+      bridge.handshake().catch(function(error) {
+        console.warn('ReactNativeBridge handshake failed', error);
+      });
+
+      // Snapshot each loaded page once it has had time to render, unless the web
+      // app opts out with window.ReactNativeBridgeConfig = { autoSnapshot: false }
+      function scheduleSnapshot() {
+        setTimeout(function() {
+          if ((window.ReactNativeBridgeConfig || {}).autoSnapshot === false) return;
+          bridge.savePageSnapshot().catch(function(error) {
+            console.warn('ReactNativeBridge could not cache this page', error);
+          });
+        }, 3000);
+      }
+      if (document.readyState === 'complete') scheduleSnapshot();
+      else window.addEventListener('load', scheduleSnapshot);
+
+      console.log('ReactNativeBridge object created and ready');
+    })();
+    true;
+  `;
+};
@@ -272,4 +272,144 @@ export const webViewStyles = StyleSheet.create({
     textAlign: 'center',
     marginTop: 8,
   },
-});
\ No newline at end of file
+});
+export const offlineStyles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: env.BACKGROUND_COLOR,
+  },
+  header: {
+    padding: 20,
+    alignItems: 'center',
+  },
+  title: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    color: env.TEXT_COLOR,
+    marginBottom: 8,
+    textAlign: 'center',
+  },
+  message: {
+    fontSize: 16,
+    color: env.TEXT_SECONDARY,
+    textAlign: 'center',
+    lineHeight: 22,
+    marginBottom: 12,
+  },
+  sectionTitle: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: env.TEXT_SECONDARY,
+    textTransform: 'uppercase',
+    paddingHorizontal: 20,
+    paddingTop: 16,
+    paddingBottom: 8,
+  },
+  item: {
+    paddingHorizontal: 20,
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: env.BORDER_COLOR,
+  },
+  itemTitle: {
+    fontSize: 16,
+    color: env.TEXT_COLOR,
+  },
+  itemSubtitle: {
+    fontSize: 13,
+    color: env.TEXT_SECONDARY,
+    marginTop: 2,
+  },
+  emptyText: {
+    fontSize: 14,
+    color: env.TEXT_SECONDARY,
+    paddingHorizontal: 20,
+    paddingVertical: 8,
+  },
+  banner: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 16,
+    paddingVertical: 10,
+    backgroundColor: env.WARNING_COLOR,
+  },
+  bannerText: {
+    flex: 1,
+    fontSize: 14,
+    color: env.BACKGROUND_COLOR,
+    marginRight: 12,
+  },
+  bannerButton: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: env.BACKGROUND_COLOR,
+  },
+});
+
+export const settingsStyles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: env.BACKGROUND_COLOR,
+  },
+  sectionTitle: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: env.TEXT_SECONDARY,
+    textTransform: 'uppercase',
+    paddingHorizontal: 20,
+    paddingTop: 24,
+    paddingBottom: 8,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 20,
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: env.BORDER_COLOR,
+  },
+  rowText: {
+    flex: 1,
+    marginRight: 12,
+  },
+  rowTitle: {
+    fontSize: 16,
+    color: env.TEXT_COLOR,
+  },
+  rowSubtitle: {
+    fontSize: 13,
+    color: env.TEXT_SECONDARY,
+    marginTop: 2,
+  },
+  timeInput: {
+    minWidth: 72,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderWidth: 1,
+    borderColor: env.BORDER_COLOR,
+    borderRadius: 6,
+    fontSize: 16,
+    color: env.TEXT_COLOR,
+    textAlign: 'center',
+  },
+  note: {
+    fontSize: 13,
+    color: env.TEXT_SECONDARY,
+    paddingHorizontal: 20,
+    paddingTop: 8,
+    lineHeight: 18,
+  },
+  link: {
+    fontSize: 14,
+    color: env.PRIMARY_COLOR,
+    paddingHorizontal: 20,
+    paddingTop: 8,
+  },
+  errorText: {
+    fontSize: 14,
+    color: env.ERROR_COLOR,
+    paddingHorizontal: 20,
+    paddingTop: 16,
+  },
+});
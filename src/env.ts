@@ -7,8 +7,13 @@ const getEnvVar = (key: string, fallback: string): string => {
 
 export const env = {
   APP_URL: getEnvVar('APP_URL', "https://pastoragenda.com"),
+  // Custom URL scheme from app.json; pastoragenda://path opens APP_URL/path
+  APP_SCHEME: "pastoragenda",
   API_URL: getEnvVar('API_URL', "https://qllicbvfcggtveuzvbqu.supabase.co/functions/v1"),
   SUPABASE_ANON_KEY: getEnvVar('SUPABASE_ANON_KEY', ""),
+  SUPABASE_URL: getEnvVar('SUPABASE_URL', "https://qllicbvfcggtveuzvbqu.supabase.co"),
+  // Comma-separated origins trusted with the bridge; defaults to APP_URL's origin
+  ALLOWED_ORIGINS: getEnvVar('ALLOWED_ORIGINS', ""),
   BACKGROUND_COLOR: "#070a10",
   PRIMARY_COLOR: "#4a90e2",
   SECONDARY_COLOR: "#7b68ee",
@@ -19,9 +24,8 @@ export const env = {
   TEXT_SECONDARY: "#666666",
   BORDER_COLOR: "#e0e0e0",
   CARD_BACKGROUND: "#070a10",
-  NOTIFICATION_CHANNEL_ID: "pastor_agenda_notifications",
-  NOTIFICATION_CHANNEL_NAME: "Pastor Agenda Notifications",
-  NOTIFICATION_CHANNEL_DESCRIPTION: "Notifications for Pastor Agenda app",
+  // Android channel for notifications that do not name one (see NOTIFICATION_CHANNELS)
+  NOTIFICATION_CHANNEL_ID: "appointments",
   // File system paths
   DOCUMENTS_DIR: "PastorAgenda",
   DOWNLOADS_DIR: "Downloads",
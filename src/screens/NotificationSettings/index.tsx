@@ -0,0 +1,186 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { ActivityIndicator, ScrollView, Switch, Text, TextInput, TouchableOpacity, View } from 'react-native';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import { commonStyles, settingsStyles } from '../../components/styles';
+import { env } from '../../env';
+import { NotificationPreferences, notificationPreferencesService } from '../../services/notificationPreferencesService';
+import { NOTIFICATION_CHANNELS, NotificationChannelId, pushNotificationService } from '../../services/pushNotificationService';
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+const CHANNEL_IDS = Object.keys(NOTIFICATION_CHANNELS) as NotificationChannelId[];
+
+export default function NotificationSettingsScreen() {
+  const [preferences, setPreferences] = useState<NotificationPreferences | null>(null);
+  // Edited as text and saved once the field loses focus
+  const [quietStart, setQuietStart] = useState('');
+  const [quietEnd, setQuietEnd] = useState('');
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const deviceId = pushNotificationService.getDeviceId();
+  const deviceTimeZone = notificationPreferencesService.getDeviceTimeZone();
+  const insets = useSafeAreaInsets();
+
+  const showPreferences = (loaded: NotificationPreferences) => {
+    setPreferences(loaded);
+    setQuietStart(loaded.quiet_hours_start);
+    setQuietEnd(loaded.quiet_hours_end);
+  };
+
+  const load = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+    const result = await notificationPreferencesService.get();
+    if (result.success && result.preferences) {
+      showPreferences(result.preferences);
+    } else {
+      setError(result.error || 'Could not load notification preferences');
+    }
+    setIsLoading(false);
+  }, []);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  // Changes are saved right away and undone if the server rejects them
+  const save = async (changes: Partial<NotificationPreferences>) => {
+    if (!preferences) {
+      return;
+    }
+
+    const previous = preferences;
+    setPreferences({ ...preferences, ...changes });
+    setError(null);
+
+    const result = await notificationPreferencesService.update(changes);
+    if (result.success && result.preferences) {
+      showPreferences(result.preferences);
+    } else {
+      showPreferences(previous);
+      setError(result.error || 'Could not save notification preferences');
+    }
+  };
+
+  const saveTime = (field: 'quiet_hours_start' | 'quiet_hours_end', value: string) => {
+    if (!preferences || value === preferences[field]) {
+      return;
+    }
+    if (!TIME_PATTERN.test(value)) {
+      setError('Enter times as HH:MM, for example 22:00');
+      showPreferences(preferences);
+      return;
+    }
+    save({ [field]: value });
+  };
+
+  if (isLoading) {
+    return (
+      <View style={commonStyles.centerContainer}>
+        <ActivityIndicator size="large" color={env.PRIMARY_COLOR} />
+      </View>
+    );
+  }
+
+  if (!preferences) {
+    return (
+      <View style={commonStyles.centerContainer}>
+        <Text style={commonStyles.errorMessage}>{error}</Text>
+        <TouchableOpacity style={commonStyles.button} onPress={load}>
+          <Text style={commonStyles.buttonText}>Try Again</Text>
+        </TouchableOpacity>
+      </View>
+    );
+  }
+
+  const isDeviceMuted = !!deviceId && preferences.muted_device_ids.includes(deviceId);
+
+  return (
+    <ScrollView style={settingsStyles.container} contentContainerStyle={{ paddingBottom: insets.bottom + 24 }}>
+      <Text style={settingsStyles.sectionTitle}>Notify me about</Text>
+      {CHANNEL_IDS.map(channelId => {
+        const field = `${channelId}_enabled` as const;
+        const channel = NOTIFICATION_CHANNELS[channelId];
+        return (
+          <View key={channelId} style={settingsStyles.row}>
+            <View style={settingsStyles.rowText}>
+              <Text style={settingsStyles.rowTitle}>{channel.name}</Text>
+              <Text style={settingsStyles.rowSubtitle}>{channel.description}</Text>
+            </View>
+            <Switch value={preferences[field]} onValueChange={value => save({ [field]: value })} />
+          </View>
+        );
+      })}
+
+      <Text style={settingsStyles.sectionTitle}>Quiet hours</Text>
+      <View style={settingsStyles.row}>
+        <View style={settingsStyles.rowText}>
+          <Text style={settingsStyles.rowTitle}>Hold notifications overnight</Text>
+        </View>
+        <Switch
+          value={preferences.quiet_hours_enabled}
+          onValueChange={value => save(value
+            ? { quiet_hours_enabled: true, time_zone: deviceTimeZone }
+            : { quiet_hours_enabled: false })}
+        />
+      </View>
+      {preferences.quiet_hours_enabled && (
+        <>
+          <View style={settingsStyles.row}>
+            <Text style={[settingsStyles.rowTitle, settingsStyles.rowText]}>From</Text>
+            <TextInput
+              style={settingsStyles.timeInput}
+              value={quietStart}
+              onChangeText={setQuietStart}
+              onEndEditing={() => saveTime('quiet_hours_start', quietStart)}
+              placeholder="22:00"
+              keyboardType="numbers-and-punctuation"
+              maxLength={5}
+            />
+          </View>
+          <View style={settingsStyles.row}>
+            <Text style={[settingsStyles.rowTitle, settingsStyles.rowText]}>Until</Text>
+            <TextInput
+              style={settingsStyles.timeInput}
+              value={quietEnd}
+              onChangeText={setQuietEnd}
+              onEndEditing={() => saveTime('quiet_hours_end', quietEnd)}
+              placeholder="07:00"
+              keyboardType="numbers-and-punctuation"
+              maxLength={5}
+            />
+          </View>
+          <Text style={settingsStyles.note}>
+            Times are in {preferences.time_zone}. Notifications that arrive during quiet hours are
+            delivered when they end.
+          </Text>
+          {preferences.time_zone !== deviceTimeZone && (
+            <TouchableOpacity onPress={() => save({ time_zone: deviceTimeZone })}>
+              <Text style={settingsStyles.link}>Use {deviceTimeZone}</Text>
+            </TouchableOpacity>
+          )}
+        </>
+      )}
+
+      {deviceId && (
+        <>
+          <Text style={settingsStyles.sectionTitle}>This device</Text>
+          <View style={settingsStyles.row}>
+            <View style={settingsStyles.rowText}>
+              <Text style={settingsStyles.rowTitle}>Mute this device</Text>
+              <Text style={settingsStyles.rowSubtitle}>Your other devices keep receiving notifications</Text>
+            </View>
+            <Switch
+              value={isDeviceMuted}
+              onValueChange={muted => {
+                const others = preferences.muted_device_ids.filter(id => id !== deviceId);
+                save({ muted_device_ids: muted ? [...others, deviceId] : others });
+              }}
+            />
+          </View>
+        </>
+      )}
+
+      {error && <Text style={settingsStyles.errorText}>{error}</Text>}
+    </ScrollView>
+  );
+}
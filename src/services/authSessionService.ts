@@ -0,0 +1,295 @@
+import * as SecureStore from 'expo-secure-store';
+import { env } from '../env';
+
+export interface AuthSession {
+  accessToken: string;
+  refreshToken?: string;
+  // Epoch ms; read from the token's `exp` claim when the web app does not send it
+  expiresAt?: number;
+  userId?: string;
+  userEmail?: string;
+  // Native refreshed the tokens and the web app has not taken them over yet.
+  // Refresh tokens are single-use, so its own copy would revoke the session
+  refreshedNatively?: boolean;
+}
+
+export interface SetSessionInput {
+  accessToken: string;
+  refreshToken?: string;
+  expiresAt?: number;
+  userId?: string;
+  userEmail?: string;
+}
+
+// Headers as saved to disk by the request queues, without credentials
+export interface StrippedHeaders {
+  headers?: Record<string, string>;
+  // The caller sent an Authorization header; add the session's back when sending
+  authorize: boolean;
+}
+
+// set/cleared come from the web app; refreshed/expired happen natively
+export type SessionChange = 'set' | 'refreshed' | 'expired' | 'cleared';
+
+type SessionListener = (session: AuthSession | null, change: SessionChange) => void;
+
+const SESSION_KEY = 'auth_session';
+// Refresh this long before the access token expires
+const REFRESH_MARGIN = 60 * 1000;
+const RETRY_DELAY = 30 * 1000;
+
+// Native copy of the web app's Supabase session, kept in the keychain/keystore.
+// Every native service that calls the API gets its bearer token from here.
+class AuthSessionService {
+  private session: AuthSession | null = null;
+  private listeners = new Set<SessionListener>();
+  private refreshTimer: ReturnType<typeof setTimeout> | null = null;
+  private refreshing: Promise<AuthSession | null> | null = null;
+  // A page on screen runs its own Supabase client and refreshes the session itself
+  private pageActive = false;
+  private ready: Promise<void>;
+
+  constructor() {
+    this.ready = this.restore();
+  }
+
+  private async restore(): Promise<void> {
+    try {
+      const stored = await SecureStore.getItemAsync(SESSION_KEY);
+      if (stored) {
+        this.session = JSON.parse(stored);
+        this.scheduleRefresh();
+      }
+    } catch (error) {
+      console.error('Error restoring auth session:', error);
+    }
+  }
+
+  private async persist(): Promise<void> {
+    try {
+      if (this.session) {
+        await SecureStore.setItemAsync(SESSION_KEY, JSON.stringify(this.session));
+      } else {
+        await SecureStore.deleteItemAsync(SESSION_KEY);
+      }
+    } catch (error) {
+      console.error('Error saving auth session:', error);
+    }
+  }
+
+  subscribe(listener: SessionListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  // The web app's session, e.g. after sign-in or its own refresh
+  async setSession(input: SetSessionInput): Promise<AuthSession> {
+    await this.ready;
+    return this.applySession(input, 'set');
+  }
+
+  private async applySession(input: SetSessionInput, change: SessionChange): Promise<AuthSession> {
+    const claims = this.decodeToken(input.accessToken);
+    this.session = {
+      accessToken: input.accessToken,
+      refreshToken: input.refreshToken ?? (claims?.sub === this.session?.userId ? this.session?.refreshToken : undefined),
+      expiresAt: input.expiresAt ?? (typeof claims?.exp === 'number' ? claims.exp * 1000 : undefined),
+      userId: input.userId ?? claims?.sub,
+      userEmail: input.userEmail ?? claims?.email,
+      refreshedNatively: change === 'refreshed',
+    };
+
+    await this.persist();
+    this.scheduleRefresh();
+    this.notify(change);
+    return { ...this.session };
+  }
+
+  // Refresh tokens are single-use, so only one side may refresh at a time. While the
+  // page is active native leaves it to the web app, which hands over each refreshed
+  // session; in the background or without a page native refreshes on its own
+  setPageActive(active: boolean): void {
+    if (this.pageActive === active) {
+      return;
+    }
+    this.pageActive = active;
+    this.scheduleRefresh();
+  }
+
+  async clearSession(): Promise<void> {
+    await this.ready;
+    await this.clear('cleared');
+  }
+
+  private async clear(change: SessionChange): Promise<void> {
+    this.session = null;
+    if (this.refreshTimer) {
+      clearTimeout(this.refreshTimer);
+      this.refreshTimer = null;
+    }
+    await this.persist();
+    this.notify(change);
+  }
+
+  async getSession(): Promise<AuthSession | null> {
+    await this.ready;
+    return this.session ? { ...this.session } : null;
+  }
+
+  // Headers for Supabase edge functions: the user's token when signed in, the anon key otherwise
+  async getAuthHeaders(): Promise<Record<string, string>> {
+    const token = await this.getAccessToken();
+    return {
+      'apikey': env.SUPABASE_ANON_KEY,
+      'Authorization': `Bearer ${token || env.SUPABASE_ANON_KEY}`,
+    };
+  }
+
+  // Queues written to documentDirectory must not hold tokens in plain text
+  stripAuthorization(headers?: Record<string, string>): StrippedHeaders {
+    if (!headers) {
+      return { headers, authorize: false };
+    }
+
+    const stripped: Record<string, string> = {};
+    let authorize = false;
+    Object.entries(headers).forEach(([name, value]) => {
+      if (name.toLowerCase() === 'authorization') {
+        authorize = true;
+      } else {
+        stripped[name] = value;
+      }
+    });
+    return { headers: stripped, authorize };
+  }
+
+  // A valid access token, refreshed first if it is about to expire; null when signed out
+  async getAccessToken(): Promise<string | null> {
+    await this.ready;
+    if (!this.session) {
+      return null;
+    }
+
+    // An expiring token still works for a while; the page is about to replace it
+    if (this.isExpiring(this.session) && !this.pageActive) {
+      const refreshed = await this.refresh();
+      return refreshed?.accessToken ?? null;
+    }
+
+    return this.session.accessToken;
+  }
+
+  // Concurrent callers share one refresh request
+  refresh(): Promise<AuthSession | null> {
+    if (!this.refreshing) {
+      this.refreshing = this.performRefresh().finally(() => {
+        this.refreshing = null;
+      });
+    }
+    return this.refreshing;
+  }
+
+  private async performRefresh(): Promise<AuthSession | null> {
+    const session = this.session;
+    if (!session?.refreshToken) {
+      // Without a refresh token the web app has to hand over a new session
+      if (session && session.expiresAt && session.expiresAt <= Date.now()) {
+        console.warn('Auth session expired and cannot be refreshed');
+        await this.clear('expired');
+      }
+      return this.session;
+    }
+
+    try {
+      const response = await fetch(`${env.SUPABASE_URL}/auth/v1/token?grant_type=refresh_token`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'apikey': env.SUPABASE_ANON_KEY,
+        },
+        body: JSON.stringify({ refresh_token: session.refreshToken }),
+      });
+
+      const result = await response.json().catch(() => null);
+
+      if (!response.ok || !result?.access_token) {
+        // 4xx means the refresh token was revoked or already used
+        if (response.status >= 400 && response.status < 500) {
+          console.warn('Auth session refresh rejected:', result?.error_description || response.status);
+          await this.clear('expired');
+          return null;
+        }
+        throw new Error(`HTTP ${response.status}`);
+      }
+
+      // The user may have signed out or switched while the refresh was in flight
+      if (this.session !== session) {
+        return this.session;
+      }
+
+      return await this.applySession({
+        accessToken: result.access_token,
+        refreshToken: result.refresh_token,
+        expiresAt: typeof result.expires_at === 'number' ? result.expires_at * 1000 : undefined,
+        userId: result.user?.id ?? session.userId,
+        userEmail: result.user?.email ?? session.userEmail,
+      }, 'refreshed');
+    } catch (error) {
+      console.warn('Auth session refresh failed, retrying later:', error);
+      this.scheduleRefresh(RETRY_DELAY);
+      return this.session;
+    }
+  }
+
+  private isExpiring(session: AuthSession): boolean {
+    return !!session.expiresAt && session.expiresAt - Date.now() <= REFRESH_MARGIN;
+  }
+
+  private scheduleRefresh(delay?: number): void {
+    if (this.refreshTimer) {
+      clearTimeout(this.refreshTimer);
+      this.refreshTimer = null;
+    }
+    if (!this.session?.refreshToken || !this.session.expiresAt || this.pageActive) {
+      return;
+    }
+
+    const wait = delay ?? Math.max(0, this.session.expiresAt - Date.now() - REFRESH_MARGIN);
+    this.refreshTimer = setTimeout(() => {
+      this.refreshTimer = null;
+      if (!this.pageActive) {
+        this.refresh();
+      }
+    }, wait);
+  }
+
+  // Reads the JWT payload without verifying it; the server does that
+  private decodeToken(token: string): { sub?: string; email?: string; exp?: number } | null {
+    try {
+      const payload = token.split('.')[1];
+      if (!payload) {
+        return null;
+      }
+      const base64 = payload.replace(/-/g, '+').replace(/_/g, '/');
+      const padded = base64 + '='.repeat((4 - (base64.length % 4)) % 4);
+      return JSON.parse(atob(padded));
+    } catch {
+      return null;
+    }
+  }
+
+  private notify(change: SessionChange): void {
+    const session = this.session ? { ...this.session } : null;
+    this.listeners.forEach(listener => {
+      try {
+        listener(session, change);
+      } catch (error) {
+        console.error('Auth session listener failed:', error);
+      }
+    });
+  }
+}
+
+export const authSessionService = new AuthSessionService();
@@ -0,0 +1,99 @@
+import * as Linking from 'expo-linking';
+import { env } from '../env';
+import { originPolicyService } from './originPolicyService';
+
+type DeepLinkListener = (url: string) => void;
+
+// Characters allowed in a path taken from a custom-scheme link
+const SAFE_PATH = /^[\w\-.~%!$&'()*+,;=:@/]*$/;
+
+// Turns incoming pastoragenda:// and https app links into URLs inside the web
+// app. Links that do not map onto an allowed origin are ignored.
+class DeepLinkService {
+  private listeners = new Set<DeepLinkListener>();
+  private initialUrlConsumed = false;
+
+  constructor() {
+    Linking.addEventListener('url', ({ url }) => this.handleUrl(url));
+  }
+
+  private handleUrl(url: string): void {
+    const target = this.resolve(url);
+    if (!target) {
+      console.warn('Ignoring deep link outside the app:', url);
+      return;
+    }
+
+    console.log('Opening deep link:', target);
+    this.listeners.forEach(listener => {
+      try {
+        listener(target);
+      } catch (error) {
+        console.error('Deep link listener failed:', error);
+      }
+    });
+  }
+
+  // The link that launched the app, resolved; returned once so a remounted
+  // WebView does not jump back to it
+  async consumeInitialUrl(): Promise<string | null> {
+    if (this.initialUrlConsumed) {
+      return null;
+    }
+    this.initialUrlConsumed = true;
+
+    try {
+      const url = await Linking.getInitialURL();
+      return url ? this.resolve(url) : null;
+    } catch (error) {
+      console.warn('Could not read initial URL:', error);
+      return null;
+    }
+  }
+
+  // Links that arrive while the app is running
+  subscribe(listener: DeepLinkListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  // App URL for an incoming link, or null when the link does not belong to the app
+  resolve(url: string): string | null {
+    // App-relative paths, as sent in notification data
+    if (url.startsWith('/') && !url.startsWith('//')) {
+      return this.resolve(`${env.APP_SCHEME}://${url}`);
+    }
+
+    if (/^https?:\/\//i.test(url)) {
+      return originPolicyService.isAllowedUrl(url) ? url : null;
+    }
+
+    // pastoragenda://appointments/42?tab=notes and pastoragenda:///appointments/42 are the same page
+    const match = url.match(new RegExp(`^${env.APP_SCHEME}:\\/\\/\\/?([^?#]*)([?#].*)?$`, 'i'));
+    if (!match) {
+      return null;
+    }
+
+    const path = match[1].replace(/^\/+/, '');
+    if (!SAFE_PATH.test(path) || path.split('/').some(segment => this.isDotSegment(segment))) {
+      return null;
+    }
+
+    const target = `${env.APP_URL.replace(/\/+$/, '')}/${path}${match[2] || ''}`;
+    return originPolicyService.isAllowedUrl(target) ? target : null;
+  }
+
+  // WebViews treat %2e%2e like .. when resolving the path
+  private isDotSegment(segment: string): boolean {
+    try {
+      const decoded = decodeURIComponent(segment);
+      return decoded === '.' || decoded === '..';
+    } catch {
+      return true;
+    }
+  }
+}
+
+export const deepLinkService = new DeepLinkService();
@@ -0,0 +1,470 @@
+import * as FileSystem from 'expo-file-system';
+import { authSessionService } from './authSessionService';
+import { fileDownloadService } from './fileDownloadService';
+import { originPolicyService } from './originPolicyService';
+import { requestService } from './requests';
+
+export type DownloadStatus = 'queued' | 'downloading' | 'paused' | 'completed' | 'failed' | 'cancelled';
+
+export interface DownloadInfo {
+  id: string;
+  url: string;
+  fileName: string;
+  uri: string;
+  status: DownloadStatus;
+  bytesWritten: number;
+  // 0 until the server reports a length
+  totalBytes: number;
+  // 0 to 1
+  progress: number;
+  mimeType?: string;
+  // HTTP status of the finished request
+  httpStatus?: number;
+  error?: string;
+  createdAt: number;
+  updatedAt: number;
+}
+
+interface DownloadTask extends DownloadInfo {
+  headers?: Record<string, string>;
+  // Saved copies only: Authorization was dropped before writing to disk
+  authorize?: boolean;
+  // Opaque state from pauseAsync used to continue where the download stopped
+  resumeData?: string;
+}
+
+export interface EnqueueDownloadOptions {
+  fileName?: string;
+  headers?: Record<string, string>;
+}
+
+export interface DownloadActionResult {
+  success: boolean;
+  download?: DownloadInfo;
+  error?: string;
+}
+
+type DownloadListener = (download: DownloadInfo) => void;
+
+const QUEUE_FILE = `${FileSystem.documentDirectory}download-queue.json`;
+const DEFAULT_CONCURRENCY = 2;
+// Progress is reported at most this often per download
+const PROGRESS_INTERVAL = 250;
+const FINISHED_STATUSES: DownloadStatus[] = ['completed', 'failed', 'cancelled'];
+// Finished downloads remembered; older ones are forgotten so the saved queue stays small
+const MAX_FINISHED = 50;
+
+class DownloadManagerService {
+  private tasks = new Map<string, DownloadTask>();
+  // Downloads currently transferring, keyed by task id
+  private active = new Map<string, FileSystem.DownloadResumable>();
+  private listeners = new Set<DownloadListener>();
+  private lastProgressAt = new Map<string, number>();
+  private concurrency = DEFAULT_CONCURRENCY;
+  private persisting: Promise<void> = Promise.resolve();
+  private ready: Promise<void>;
+
+  constructor() {
+    this.ready = this.restoreQueue();
+  }
+
+  private async restoreQueue(): Promise<void> {
+    try {
+      const info = await FileSystem.getInfoAsync(QUEUE_FILE);
+      if (info.exists) {
+        const saved: DownloadTask[] = JSON.parse(await FileSystem.readAsStringAsync(QUEUE_FILE));
+        const token = await authSessionService.getAccessToken();
+        saved.forEach(({ authorize: savedAuthorize, ...task }) => {
+          // The app closed mid-transfer; pick it up again from any saved resume point
+          if (task.status === 'downloading') {
+            task.status = 'queued';
+          }
+          // Older versions saved the caller's Authorization header. Downloads start
+          // synchronously, so the session's token is put back here, and only for our own servers
+          const { headers, authorize } = authSessionService.stripAuthorization(task.headers);
+          const trusted = (savedAuthorize || authorize) && token && originPolicyService.isTrustedRequestUrl(task.url);
+          this.tasks.set(task.id, { ...task, headers: trusted ? { ...headers, Authorization: `Bearer ${token}` } : headers });
+        });
+        this.pruneFinished();
+        this.persistQueue();
+      }
+    } catch (error) {
+      console.error('Error restoring download queue:', error);
+    }
+
+    this.processQueue();
+  }
+
+  // Writes are chained so an older snapshot never overwrites a newer one
+  private persistQueue(): void {
+    const snapshot = JSON.stringify([...this.tasks.values()].map(task => {
+      const { headers, authorize } = authSessionService.stripAuthorization(task.headers);
+      return { ...task, headers, authorize };
+    }));
+    this.persisting = this.persisting
+      .then(() => FileSystem.writeAsStringAsync(QUEUE_FILE, snapshot))
+      .catch(error => console.error('Error saving download queue:', error));
+  }
+
+  subscribe(listener: DownloadListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private notify(task: DownloadTask): void {
+    const info = this.toInfo(task);
+    this.listeners.forEach(listener => {
+      try {
+        listener(info);
+      } catch (error) {
+        console.error('Download listener failed:', error);
+      }
+    });
+  }
+
+  private update(task: DownloadTask, changes: Partial<DownloadTask>): void {
+    Object.assign(task, changes, { updatedAt: Date.now() });
+    this.notify(task);
+    if (changes.status && FINISHED_STATUSES.includes(changes.status)) {
+      this.pruneFinished();
+    }
+    this.persistQueue();
+  }
+
+  // Forgets the oldest finished downloads beyond MAX_FINISHED. Completed files are
+  // kept; a failed download's partial file goes, since it can no longer be retried
+  private pruneFinished(): void {
+    const finished = [...this.tasks.values()]
+      .filter(task => FINISHED_STATUSES.includes(task.status))
+      .sort((a, b) => b.updatedAt - a.updatedAt);
+
+    finished.slice(MAX_FINISHED).forEach(task => {
+      this.tasks.delete(task.id);
+      this.lastProgressAt.delete(task.id);
+      if (task.status === 'failed') {
+        FileSystem.deleteAsync(task.uri, { idempotent: true }).catch(() => undefined);
+      }
+    });
+  }
+
+  async enqueue(url: string, options: EnqueueDownloadOptions = {}): Promise<DownloadInfo> {
+    await this.ready;
+
+    const uri = await this.getAvailableUri(this.sanitizeFileName(options.fileName || this.getFileNameFromUrl(url)));
+    const now = Date.now();
+    const task: DownloadTask = {
+      id: `dl_${now}_${Math.random().toString(36).substr(2, 9)}`,
+      url,
+      fileName: uri.split('/').pop() || 'download',
+      uri,
+      headers: options.headers,
+      status: 'queued',
+      bytesWritten: 0,
+      totalBytes: 0,
+      progress: 0,
+      mimeType: requestService.getMimeTypeFromUri(uri),
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    this.tasks.set(task.id, task);
+    this.notify(task);
+    this.persistQueue();
+    this.processQueue();
+
+    return this.toInfo(task);
+  }
+
+  // Resolves once the download completes, fails or is cancelled
+  waitForCompletion(id: string): Promise<DownloadInfo | undefined> {
+    const task = this.tasks.get(id);
+    if (!task || FINISHED_STATUSES.includes(task.status)) {
+      return Promise.resolve(task && this.toInfo(task));
+    }
+
+    return new Promise(resolve => {
+      const unsubscribe = this.subscribe(download => {
+        if (download.id === id && FINISHED_STATUSES.includes(download.status)) {
+          unsubscribe();
+          resolve(download);
+        }
+      });
+    });
+  }
+
+  async pause(id: string): Promise<DownloadActionResult> {
+    await this.ready;
+    const task = this.tasks.get(id);
+    if (!task) {
+      return { success: false, error: 'Download not found' };
+    }
+
+    try {
+      const resumable = this.active.get(id);
+      if (resumable) {
+        // Remove first so the pending downloadAsync call ignores the interruption
+        this.active.delete(id);
+        const state = await resumable.pauseAsync();
+        this.update(task, { status: 'paused', resumeData: state.resumeData });
+        this.processQueue();
+      } else if (task.status === 'queued') {
+        this.update(task, { status: 'paused' });
+      } else {
+        return { success: false, download: this.toInfo(task), error: `Cannot pause a ${task.status} download` };
+      }
+
+      return { success: true, download: this.toInfo(task) };
+    } catch (error) {
+      return { success: false, error: error instanceof Error ? error.message : 'Unknown error' };
+    }
+  }
+
+  async resume(id: string): Promise<DownloadActionResult> {
+    await this.ready;
+    const task = this.tasks.get(id);
+    if (!task) {
+      return { success: false, error: 'Download not found' };
+    }
+
+    if (task.status !== 'paused' && task.status !== 'failed') {
+      return { success: false, download: this.toInfo(task), error: `Cannot resume a ${task.status} download` };
+    }
+
+    this.update(task, { status: 'queued', error: undefined });
+    this.processQueue();
+
+    return { success: true, download: this.toInfo(task) };
+  }
+
+  async cancel(id: string): Promise<DownloadActionResult> {
+    await this.ready;
+    const task = this.tasks.get(id);
+    if (!task) {
+      return { success: false, error: 'Download not found' };
+    }
+
+    if (FINISHED_STATUSES.includes(task.status)) {
+      return { success: false, download: this.toInfo(task), error: `Cannot cancel a ${task.status} download` };
+    }
+
+    try {
+      const resumable = this.active.get(id);
+      this.active.delete(id);
+      await resumable?.cancelAsync();
+      await FileSystem.deleteAsync(task.uri, { idempotent: true });
+
+      this.update(task, { status: 'cancelled', resumeData: undefined });
+      this.processQueue();
+
+      return { success: true, download: this.toInfo(task) };
+    } catch (error) {
+      return { success: false, error: error instanceof Error ? error.message : 'Unknown error' };
+    }
+  }
+
+  // Forgets a finished download; the file itself is only deleted on request
+  async remove(id: string, deleteFile: boolean = false): Promise<DownloadActionResult> {
+    await this.ready;
+    const task = this.tasks.get(id);
+    if (!task) {
+      return { success: false, error: 'Download not found' };
+    }
+
+    if (!FINISHED_STATUSES.includes(task.status)) {
+      await this.cancel(id);
+    } else if (deleteFile) {
+      await FileSystem.deleteAsync(task.uri, { idempotent: true });
+    }
+
+    this.tasks.delete(id);
+    this.lastProgressAt.delete(id);
+    this.persistQueue();
+
+    return { success: true, download: this.toInfo(task) };
+  }
+
+  // Stops every download and forgets the whole queue; files are left to the caller
+  async clear(): Promise<void> {
+    await this.ready;
+    const active = [...this.active.values()];
+    this.active.clear();
+    await Promise.all(active.map(resumable => resumable.cancelAsync().catch(() => undefined)));
+
+    // Settles anyone still waiting on an unfinished download
+    this.tasks.forEach(task => {
+      if (!FINISHED_STATUSES.includes(task.status)) {
+        this.update(task, { status: 'cancelled', resumeData: undefined });
+      }
+    });
+    this.tasks.clear();
+    this.lastProgressAt.clear();
+    this.persistQueue();
+  }
+
+  async getDownloads(): Promise<DownloadInfo[]> {
+    await this.ready;
+    return [...this.tasks.values()]
+      .sort((a, b) => a.createdAt - b.createdAt)
+      .map(task => this.toInfo(task));
+  }
+
+  getDownload(id: string): DownloadInfo | undefined {
+    const task = this.tasks.get(id);
+    return task && this.toInfo(task);
+  }
+
+  // Files in the downloads directory, without the partial files of unfinished downloads
+  async listFiles() {
+    await this.ready;
+    const result = await fileDownloadService.listFiles();
+    const partial = new Set(
+      [...this.tasks.values()]
+        .filter(task => task.status !== 'completed')
+        .map(task => task.uri)
+    );
+
+    return {
+      ...result,
+      files: result.files?.filter(file => !partial.has(file.uri)),
+    };
+  }
+
+  setConcurrency(concurrency: number): void {
+    this.concurrency = Math.max(1, concurrency);
+    this.processQueue();
+  }
+
+  private processQueue(): void {
+    const queued = [...this.tasks.values()]
+      .filter(task => task.status === 'queued')
+      .sort((a, b) => a.createdAt - b.createdAt);
+
+    for (const task of queued) {
+      if (this.active.size >= this.concurrency) {
+        break;
+      }
+      this.startDownload(task);
+    }
+  }
+
+  private async startDownload(task: DownloadTask): Promise<void> {
+    const resumable = FileSystem.createDownloadResumable(
+      task.url,
+      task.uri,
+      { headers: task.headers },
+      (progress) => this.handleProgress(task, progress),
+      task.resumeData
+    );
+    this.active.set(task.id, resumable);
+    this.update(task, { status: 'downloading', error: undefined });
+
+    try {
+      await FileSystem.makeDirectoryAsync(fileDownloadService.getDownloadsDirectory(), { intermediates: true });
+      const result = task.resumeData ? await resumable.resumeAsync() : await resumable.downloadAsync();
+
+      // Paused or cancelled while the request was running
+      if (this.active.get(task.id) !== resumable || !result) {
+        return;
+      }
+      this.active.delete(task.id);
+
+      if (result.status < 200 || result.status >= 300) {
+        await FileSystem.deleteAsync(task.uri, { idempotent: true });
+        this.update(task, {
+          status: 'failed',
+          httpStatus: result.status,
+          resumeData: undefined,
+          error: `Download failed with status: ${result.status}`,
+        });
+        return;
+      }
+
+      const fileInfo = await FileSystem.getInfoAsync(task.uri);
+      const fileSize = fileInfo.exists ? fileInfo.size : task.bytesWritten;
+      this.update(task, {
+        status: 'completed',
+        httpStatus: result.status,
+        bytesWritten: fileSize,
+        totalBytes: fileSize,
+        progress: 1,
+        mimeType: this.getHeader(result.headers, 'Content-Type')?.split(';')[0].trim() || task.mimeType,
+        resumeData: undefined,
+      });
+    } catch (error) {
+      if (this.active.get(task.id) !== resumable) {
+        return;
+      }
+      this.active.delete(task.id);
+
+      this.update(task, {
+        status: 'failed',
+        // Keep whatever was saved so a retry can continue from there
+        resumeData: resumable.savable().resumeData ?? task.resumeData,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    } finally {
+      this.processQueue();
+    }
+  }
+
+  private handleProgress(task: DownloadTask, progress: FileSystem.DownloadProgressData): void {
+    task.bytesWritten = progress.totalBytesWritten;
+    task.totalBytes = Math.max(progress.totalBytesExpectedToWrite, 0);
+    task.progress = task.totalBytes > 0 ? task.bytesWritten / task.totalBytes : 0;
+
+    const now = Date.now();
+    if (now - (this.lastProgressAt.get(task.id) || 0) >= PROGRESS_INTERVAL) {
+      this.lastProgressAt.set(task.id, now);
+      task.updatedAt = now;
+      this.notify(task);
+    }
+  }
+
+  private async getAvailableUri(fileName: string): Promise<string> {
+    const dir = fileDownloadService.getDownloadsDirectory();
+    const dot = fileName.lastIndexOf('.');
+    const base = dot > 0 ? fileName.slice(0, dot) : fileName;
+    const extension = dot > 0 ? fileName.slice(dot) : '';
+    const taken = new Set([...this.tasks.values()].map(task => task.uri));
+
+    for (let attempt = 0; ; attempt++) {
+      const uri = `${dir}${attempt === 0 ? fileName : `${base} (${attempt})${extension}`}`;
+      if (taken.has(uri)) {
+        continue;
+      }
+      const info = await FileSystem.getInfoAsync(uri);
+      if (!info.exists) {
+        return uri;
+      }
+    }
+  }
+
+  private getFileNameFromUrl(url: string): string {
+    try {
+      const name = decodeURIComponent(new URL(url).pathname.split('/').pop() || '');
+      return name || `download_${Date.now()}`;
+    } catch {
+      return `download_${Date.now()}`;
+    }
+  }
+
+  // Keep downloads inside the downloads directory
+  private sanitizeFileName(fileName: string): string {
+    return fileName.replace(/[/\\]/g, '_').replace(/^\.+/, '') || `download_${Date.now()}`;
+  }
+
+  // Header names are case-insensitive; Android and HTTP/2 report them lowercased
+  private getHeader(headers: Record<string, string>, name: string): string | undefined {
+    const key = Object.keys(headers).find(header => header.toLowerCase() === name.toLowerCase());
+    return key ? headers[key] : undefined;
+  }
+
+  private toInfo(task: DownloadTask): DownloadInfo {
+    const { headers, authorize, resumeData, ...info } = task;
+    return { ...info };
+  }
+}
+
+export const downloadManagerService = new DownloadManagerService();
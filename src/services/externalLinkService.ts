@@ -0,0 +1,142 @@
+import * as WebBrowser from 'expo-web-browser';
+import { Linking, Platform } from 'react-native';
+import { env } from '../env';
+import { originPolicyService } from './originPolicyService';
+
+export type OpenUrlMode = 'auto' | 'in_app' | 'system' | 'webview';
+
+export type LinkKind = 'app' | 'web' | 'mailto' | 'tel' | 'sms' | 'map' | 'other';
+
+export interface ExternalLinkResult {
+  success: boolean;
+  url?: string;
+  // Mode the link was actually opened with
+  mode?: Exclude<OpenUrlMode, 'auto'>;
+  // True once the user closed the in-app browser (iOS only; Android returns immediately)
+  dismissed?: boolean;
+  browserResult?: WebBrowser.WebBrowserResultType;
+  error?: string;
+}
+
+const MAP_HOSTS = ['maps.google.com', 'maps.apple.com', 'maps.app.goo.gl'];
+
+class ExternalLinkService {
+  classifyUrl(url: string): LinkKind {
+    const scheme = url.split(':')[0].toLowerCase();
+
+    switch (scheme) {
+      case 'mailto':
+        return 'mailto';
+      case 'tel':
+      case 'telprompt':
+        return 'tel';
+      case 'sms':
+        return 'sms';
+      case 'geo':
+      case 'maps':
+      case 'comgooglemaps':
+        return 'map';
+      case 'http':
+      case 'https':
+        break;
+      default:
+        return 'other';
+    }
+
+    if (originPolicyService.isAllowedUrl(url)) {
+      return 'app';
+    }
+
+    try {
+      const { host, pathname } = new URL(url);
+      const normalizedHost = host.toLowerCase();
+      if (MAP_HOSTS.includes(normalizedHost) || (/(^|\.)google\.[a-z.]+$/.test(normalizedHost) && pathname.startsWith('/maps'))) {
+        return 'map';
+      }
+    } catch (error) {
+      console.warn('Could not parse URL for classification:', url, error);
+    }
+
+    return 'web';
+  }
+
+  // Picks where a link should open when the caller leaves it to us
+  resolveMode(url: string, mode: OpenUrlMode = 'auto'): Exclude<OpenUrlMode, 'auto'> {
+    if (mode !== 'auto') {
+      return mode;
+    }
+
+    switch (this.classifyUrl(url)) {
+      case 'app':
+        return 'webview';
+      case 'web':
+        return 'in_app';
+      default:
+        // Mail, phone, SMS, maps and custom schemes belong to other apps
+        return 'system';
+    }
+  }
+
+  // Opens the URL outside the main WebView. 'webview' links are not handled
+  // here; callers navigate the WebView themselves.
+  async openUrl(url: string, mode: OpenUrlMode = 'auto'): Promise<ExternalLinkResult> {
+    const resolvedMode = this.resolveMode(url, mode);
+
+    try {
+      switch (resolvedMode) {
+        case 'in_app':
+          return await this.openInAppBrowser(url);
+        case 'system':
+          return await this.openInSystem(url);
+        default:
+          return { success: false, url, mode: resolvedMode, error: 'WebView links must be opened by the WebView' };
+      }
+    } catch (error) {
+      return {
+        success: false,
+        url,
+        mode: resolvedMode,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      };
+    }
+  }
+
+  private async openInAppBrowser(url: string): Promise<ExternalLinkResult> {
+    const result = await WebBrowser.openBrowserAsync(url, {
+      toolbarColor: env.BACKGROUND_COLOR,
+      controlsColor: env.PRIMARY_COLOR,
+      presentationStyle: WebBrowser.WebBrowserPresentationStyle.PAGE_SHEET,
+    });
+
+    return {
+      success: result.type !== WebBrowser.WebBrowserResultType.LOCKED,
+      url,
+      mode: 'in_app',
+      dismissed: result.type === WebBrowser.WebBrowserResultType.CANCEL ||
+        result.type === WebBrowser.WebBrowserResultType.DISMISS,
+      browserResult: result.type,
+      error: result.type === WebBrowser.WebBrowserResultType.LOCKED ? 'Another browser is already open' : undefined,
+    };
+  }
+
+  private async openInSystem(url: string): Promise<ExternalLinkResult> {
+    const target = this.toPlatformUrl(url);
+    await Linking.openURL(target);
+
+    return { success: true, url: target, mode: 'system' };
+  }
+
+  // iOS has no handler for geo: links, so send them to Apple Maps instead
+  private toPlatformUrl(url: string): string {
+    if (Platform.OS !== 'ios' || !url.toLowerCase().startsWith('geo:')) {
+      return url;
+    }
+
+    const [coordinates, query] = url.slice(4).split('?');
+    const params = new URLSearchParams(query);
+    const search = params.get('q') || coordinates;
+    return `https://maps.apple.com/?q=${encodeURIComponent(search)}`;
+  }
+}
+
+export const externalLinkService = new ExternalLinkService();
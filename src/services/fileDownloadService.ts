@@ -64,13 +64,25 @@ class FileDownloadService {
 
       console.log('Downloading file:', url, 'to:', fileUri);
 
-      const downloadResult = await FileSystem.downloadAsync(url, fileUri, {
-        headers: options?.headers,
-        progressCallback: (progress) => {
-          const progressPercent = (progress.totalBytesWritten / progress.totalBytesExpectedToWrite) * 100;
-          options?.onProgress?.(progressPercent);
-        },
-      });
+      const download = FileSystem.createDownloadResumable(
+        url,
+        fileUri,
+        { headers: options?.headers },
+        (progress) => {
+          if (progress.totalBytesExpectedToWrite > 0) {
+            const progressPercent = (progress.totalBytesWritten / progress.totalBytesExpectedToWrite) * 100;
+            options?.onProgress?.(progressPercent);
+          }
+        }
+      );
+      const downloadResult = await download.downloadAsync();
+
+      if (!downloadResult) {
+        return {
+          success: false,
+          error: 'Download cancelled'
+        };
+      }
 
       if (downloadResult.status === 200) {
         // Get file info
@@ -80,7 +92,7 @@ class FileDownloadService {
           success: true,
           uri: downloadResult.uri,
           fileName: finalFileName,
-          fileSize: fileInfo.size,
+          fileSize: fileInfo.exists ? fileInfo.size : undefined,
           mimeType: this.getMimeTypeFromUrl(url)
         };
       } else {
@@ -240,8 +252,8 @@ class FileDownloadService {
           return {
             name: fileName,
             uri: fileUri,
-            size: fileInfo.size || 0,
-            modificationTime: fileInfo.modificationTime || 0,
+            size: fileInfo.exists ? fileInfo.size : 0,
+            modificationTime: fileInfo.exists ? fileInfo.modificationTime : 0,
           };
         })
       );
@@ -277,6 +289,30 @@ class FileDownloadService {
     }
   }
 
+  // Removes downloads and everything in the app's cache directory, including
+  // captured and processed media
+  async clearUserFiles(): Promise<{ success: boolean; error?: string }> {
+    try {
+      const dirs = [this.downloadsDir, FileSystem.cacheDirectory];
+      for (const dir of dirs) {
+        if (!dir || !(await FileSystem.getInfoAsync(dir)).exists) {
+          continue;
+        }
+        const entries = await FileSystem.readDirectoryAsync(dir);
+        await Promise.all(
+          entries.map(name => FileSystem.deleteAsync(`${dir}${name}`, { idempotent: true }))
+        );
+      }
+
+      return { success: true };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      };
+    }
+  }
+
   private generateFileName(url: string): string {
     try {
       const urlObj = new URL(url);
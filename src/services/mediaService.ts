@@ -1,9 +1,13 @@
-import * as Audio from 'expo-av';
-import * as Camera from 'expo-camera';
+import { Audio } from 'expo-av';
+import { Camera } from 'expo-camera';
 import * as FileSystem from 'expo-file-system';
+import { ImageManipulator, SaveFormat } from 'expo-image-manipulator';
 import * as ImagePicker from 'expo-image-picker';
 import * as Location from 'expo-location';
 import * as MediaLibrary from 'expo-media-library';
+import * as VideoThumbnails from 'expo-video-thumbnails';
+import { env } from '../env';
+import { requestService } from './requests';
 
 export interface MediaResult {
   success: boolean;
@@ -13,10 +17,122 @@ export interface MediaResult {
   type?: string;
   fileName?: string;
   fileSize?: number;
+  duration?: number; // milliseconds
+  error?: string;
+}
+
+export interface MediaAsset {
+  uri: string;
+  width: number;
+  height: number;
+  type?: string;
+  fileName?: string;
+  fileSize?: number;
+  mimeType?: string;
+  duration?: number; // milliseconds, videos only
+  exif?: Record<string, any>;
+}
+
+// The first asset is also spread onto the result so single-pick callers keep working
+export interface MediaPickResult extends MediaResult {
+  assets?: MediaAsset[];
+}
+
+export type PickMediaType = 'images' | 'videos' | 'all';
+
+export interface PickMediaOptions {
+  mediaType?: PickMediaType;
+  // Maximum number of assets; 0 means unlimited. Cropping is only offered when picking one.
+  selectionLimit?: number;
+  allowsEditing?: boolean;
+  aspect?: number[];
+  quality?: number;
+  exif?: boolean;
+  // Seconds
+  videoMaxDuration?: number;
+}
+
+export type ImageFormat = 'jpeg' | 'png' | 'webp';
+
+export interface ProcessImageOptions {
+  // The image is scaled down (never up) to fit within these bounds
+  maxWidth?: number;
+  maxHeight?: number;
+  format?: ImageFormat;
+  // 0 to 1; lowered automatically when the output exceeds maxBytes
+  quality?: number;
+  // Byte budget for the output; defaults to env.MAX_IMAGE_SIZE
+  maxBytes?: number;
+  // Also write a thumbnail whose longest edge is this many pixels
+  thumbnailSize?: number;
+}
+
+export interface ImageThumbnail {
+  uri: string;
+  width: number;
+  height: number;
+}
+
+export interface ProcessedImageResult extends MediaResult {
+  mimeType?: string;
+  // Quality the output was finally encoded at
+  quality?: number;
+  originalWidth?: number;
+  originalHeight?: number;
+  originalFileSize?: number;
+  // Re-encoding drops all EXIF metadata, including GPS coordinates
+  exifStripped?: boolean;
+  thumbnail?: ImageThumbnail;
+}
+
+export type VideoQuality = 'low' | 'medium' | 'high';
+
+export interface RecordVideoOptions {
+  // Recording stops on its own at this length; defaults to one minute
+  maxDurationMs?: number;
+  // iOS only; Android always records at the device default
+  quality?: VideoQuality;
+  // Recordings larger than this are discarded; defaults to env.MAX_VIDEO_SIZE
+  maxBytes?: number;
+  camera?: 'front' | 'back';
+  // Position of the poster frame within the clip
+  posterTimeMs?: number;
+}
+
+export interface VideoResult extends MediaResult {
+  mimeType?: string;
+  poster?: ImageThumbnail;
+}
+
+export interface MediaInfo {
+  success: boolean;
+  width?: number;
+  height?: number;
   duration?: number;
+  fileSize?: number;
+  mimeType?: string;
   error?: string;
 }
 
+export type AudioQuality = 'low' | 'high';
+
+export interface AudioRecordingStatus {
+  state: 'recording' | 'paused' | 'stopped' | 'cancelled';
+  durationMillis: number;
+  // Input level in dBFS (-160 to 0), when the platform reports it
+  metering?: number;
+  // Final recording, included once the state is 'stopped'
+  result?: MediaResult;
+}
+
+export interface AudioRecordingOptions {
+  quality?: AudioQuality;
+  // Recording stops on its own once it reaches this length
+  maxDurationMs?: number;
+  statusIntervalMs?: number;
+  onStatus?: (status: AudioRecordingStatus) => void;
+}
+
 export interface LocationResult {
   success: boolean;
   latitude?: number;
@@ -29,9 +145,41 @@ export interface LocationResult {
   error?: string;
 }
 
+const AUDIO_QUALITY_PRESETS: Record<AudioQuality, Audio.RecordingOptions> = {
+  low: Audio.RecordingOptionsPresets.LOW_QUALITY,
+  high: Audio.RecordingOptionsPresets.HIGH_QUALITY,
+};
+
+const IMAGE_SAVE_FORMATS: Record<ImageFormat, SaveFormat> = {
+  jpeg: SaveFormat.JPEG,
+  png: SaveFormat.PNG,
+  webp: SaveFormat.WEBP,
+};
+
+const IMAGE_MIME_TYPES: Record<ImageFormat, string> = {
+  jpeg: 'image/jpeg',
+  png: 'image/png',
+  webp: 'image/webp',
+};
+
+const VIDEO_QUALITIES: Record<VideoQuality, ImagePicker.UIImagePickerControllerQualityType> = {
+  low: ImagePicker.UIImagePickerControllerQualityType.Low,
+  medium: ImagePicker.UIImagePickerControllerQualityType.Medium,
+  high: ImagePicker.UIImagePickerControllerQualityType.High,
+};
+
+const DEFAULT_VIDEO_DURATION = 60 * 1000;
+
+// Below this quality artifacts get worse than simply shrinking the image
+const MIN_IMAGE_QUALITY = 0.4;
+const MAX_COMPRESSION_PASSES = 8;
+const DEFAULT_THUMBNAIL_SIZE = 256;
+
 class MediaService {
   private audioRecording: Audio.Recording | null = null;
   private isRecording = false;
+  private isPaused = false;
+  private recordingOptions: AudioRecordingOptions = {};
 
   async requestPermissions(permissions: string[]): Promise<boolean> {
     try {
@@ -64,7 +212,7 @@ class MediaService {
 
   async takePhoto(options?: {
     allowsEditing?: boolean;
-    aspect?: [number, number];
+    aspect?: number[];
     quality?: number;
   }): Promise<MediaResult> {
     try {
@@ -77,22 +225,16 @@ class MediaService {
       }
 
       const result = await ImagePicker.launchCameraAsync({
-        mediaTypes: ImagePicker.MediaTypeOptions.All,
+        mediaTypes: ['images'],
         allowsEditing: options?.allowsEditing ?? true,
-        aspect: options?.aspect ?? [4, 3],
+        aspect: this.toAspect(options?.aspect),
         quality: options?.quality ?? 0.8,
       });
 
       if (!result.canceled && result.assets[0]) {
-        const asset = result.assets[0];
         return {
           success: true,
-          uri: asset.uri,
-          width: asset.width,
-          height: asset.height,
-          type: asset.type,
-          fileName: asset.fileName,
-          fileSize: asset.fileSize
+          ...this.toMediaAsset(result.assets[0])
         };
       } else {
         return {
@@ -108,12 +250,69 @@ class MediaService {
     }
   }
 
-  async pickImage(options?: {
-    allowsEditing?: boolean;
-    aspect?: [number, number];
-    quality?: number;
-    allowsMultipleSelection?: boolean;
-  }): Promise<MediaResult> {
+  async recordVideo(options: RecordVideoOptions = {}): Promise<VideoResult> {
+    try {
+      const hasPermission = await this.requestPermissions(['camera', 'microphone']);
+      if (!hasPermission) {
+        return {
+          success: false,
+          error: 'Camera or microphone permission denied'
+        };
+      }
+
+      const result = await ImagePicker.launchCameraAsync({
+        mediaTypes: ['videos'],
+        videoMaxDuration: Math.ceil((options.maxDurationMs ?? DEFAULT_VIDEO_DURATION) / 1000),
+        videoQuality: VIDEO_QUALITIES[options.quality ?? 'medium'],
+        cameraType: options.camera === 'front' ? ImagePicker.CameraType.front : ImagePicker.CameraType.back,
+      });
+
+      if (result.canceled || !result.assets[0]) {
+        return {
+          success: false,
+          error: 'Video recording cancelled'
+        };
+      }
+
+      const video = this.toMediaAsset(result.assets[0]);
+      const fileSize = video.fileSize ?? await this.getFileSize(video.uri);
+      const maxBytes = options.maxBytes ?? env.MAX_VIDEO_SIZE;
+
+      if (fileSize > maxBytes) {
+        await FileSystem.deleteAsync(video.uri, { idempotent: true });
+        return {
+          success: false,
+          error: `Video is larger than the ${Math.round(maxBytes / (1024 * 1024))}MB limit`
+        };
+      }
+
+      let poster: ImageThumbnail | undefined;
+      try {
+        poster = await VideoThumbnails.getThumbnailAsync(video.uri, {
+          time: options.posterTimeMs ?? 0,
+          quality: 0.7
+        });
+      } catch (error) {
+        console.warn('Could not create video poster frame:', error);
+      }
+
+      return {
+        success: true,
+        ...video,
+        type: 'video',
+        fileSize,
+        mimeType: video.mimeType ?? requestService.getMimeTypeFromUri(video.uri),
+        poster
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      };
+    }
+  }
+
+  async pickImage(options: PickMediaOptions = {}): Promise<MediaPickResult> {
     try {
       const hasPermission = await this.requestPermissions(['media_library']);
       if (!hasPermission) {
@@ -123,24 +322,27 @@ class MediaService {
         };
       }
 
+      const selectionLimit = options.selectionLimit ?? 1;
+      const allowsMultipleSelection = selectionLimit !== 1;
+
       const result = await ImagePicker.launchImageLibraryAsync({
-        mediaTypes: ImagePicker.MediaTypeOptions.All,
-        allowsEditing: options?.allowsEditing ?? true,
-        aspect: options?.aspect ?? [4, 3],
-        quality: options?.quality ?? 0.8,
-        allowsMultipleSelection: options?.allowsMultipleSelection ?? false,
+        mediaTypes: this.toPickerMediaTypes(options.mediaType),
+        allowsMultipleSelection,
+        selectionLimit: allowsMultipleSelection ? selectionLimit : undefined,
+        // The system cropper only works on a single asset
+        allowsEditing: !allowsMultipleSelection && (options.allowsEditing ?? true),
+        aspect: this.toAspect(options.aspect),
+        quality: options.quality ?? 0.8,
+        exif: options.exif ?? false,
+        videoMaxDuration: options.videoMaxDuration,
       });
 
-      if (!result.canceled && result.assets[0]) {
-        const asset = result.assets[0];
+      if (!result.canceled && result.assets.length > 0) {
+        const assets = result.assets.map(asset => this.toMediaAsset(asset));
         return {
           success: true,
-          uri: asset.uri,
-          width: asset.width,
-          height: asset.height,
-          type: asset.type,
-          fileName: asset.fileName,
-          fileSize: asset.fileSize
+          ...assets[0],
+          assets
         };
       } else {
         return {
@@ -156,7 +358,36 @@ class MediaService {
     }
   }
 
-  async startAudioRecording(): Promise<MediaResult> {
+  private toAspect(aspect?: number[]): [number, number] {
+    return aspect?.length === 2 ? [aspect[0], aspect[1]] : [4, 3];
+  }
+
+  private toPickerMediaTypes(mediaType: PickMediaType = 'all'): ImagePicker.MediaType[] {
+    switch (mediaType) {
+      case 'images':
+        return ['images'];
+      case 'videos':
+        return ['videos'];
+      default:
+        return ['images', 'videos'];
+    }
+  }
+
+  private toMediaAsset(asset: ImagePicker.ImagePickerAsset): MediaAsset {
+    return {
+      uri: asset.uri,
+      width: asset.width,
+      height: asset.height,
+      type: asset.type ?? undefined,
+      fileName: asset.fileName ?? undefined,
+      fileSize: asset.fileSize,
+      mimeType: asset.mimeType,
+      duration: asset.duration ?? undefined,
+      exif: asset.exif ?? undefined,
+    };
+  }
+
+  async startAudioRecording(options: AudioRecordingOptions = {}): Promise<MediaResult> {
     try {
       const hasPermission = await this.requestPermissions(['microphone']);
       if (!hasPermission) {
@@ -173,15 +404,30 @@ class MediaService {
         };
       }
 
-      this.audioRecording = new Audio.Recording();
-      await this.audioRecording.prepareToRecordAsync(Audio.RecordingOptionsPresets.HIGH_QUALITY);
-      await this.audioRecording.startAsync();
+      await Audio.setAudioModeAsync({
+        allowsRecordingIOS: true,
+        playsInSilentModeIOS: true,
+      });
+
+      const recording = new Audio.Recording();
+      recording.setProgressUpdateInterval(options.statusIntervalMs ?? 500);
+      recording.setOnRecordingStatusUpdate((status) => this.handleRecordingStatus(status));
+      await recording.prepareToRecordAsync({
+        ...AUDIO_QUALITY_PRESETS[options.quality ?? 'high'],
+        isMeteringEnabled: true,
+      });
+
+      this.audioRecording = recording;
+      this.recordingOptions = options;
       this.isRecording = true;
+      this.isPaused = false;
+      await recording.startAsync();
 
       return {
         success: true
       };
     } catch (error) {
+      this.resetRecordingState();
       return {
         success: false,
         error: error instanceof Error ? error.message : 'Unknown error'
@@ -189,7 +435,25 @@ class MediaService {
     }
   }
 
-  async stopAudioRecording(): Promise<MediaResult> {
+  private handleRecordingStatus(status: Audio.RecordingStatus): void {
+    if (!this.isRecording || !status.canRecord) {
+      return;
+    }
+
+    this.recordingOptions.onStatus?.({
+      state: this.isPaused ? 'paused' : 'recording',
+      durationMillis: status.durationMillis,
+      metering: status.metering,
+    });
+
+    const { maxDurationMs } = this.recordingOptions;
+    if (maxDurationMs && status.durationMillis >= maxDurationMs) {
+      console.log('Audio recording reached its maximum length');
+      this.stopAudioRecording();
+    }
+  }
+
+  async pauseAudioRecording(): Promise<MediaResult> {
     try {
       if (!this.audioRecording || !this.isRecording) {
         return {
@@ -198,17 +462,38 @@ class MediaService {
         };
       }
 
-      await this.audioRecording.stopAndUnloadAsync();
-      const uri = this.audioRecording.getURI();
-      const status = await this.audioRecording.getStatusAsync();
-      
-      this.audioRecording = null;
-      this.isRecording = false;
+      const status = await this.audioRecording.pauseAsync();
+      this.isPaused = true;
+      this.recordingOptions.onStatus?.({ state: 'paused', durationMillis: status.durationMillis });
+
+      return {
+        success: true,
+        duration: status.durationMillis
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      };
+    }
+  }
+
+  async resumeAudioRecording(): Promise<MediaResult> {
+    try {
+      if (!this.audioRecording || !this.isRecording || !this.isPaused) {
+        return {
+          success: false,
+          error: 'No paused recording'
+        };
+      }
+
+      const status = await this.audioRecording.startAsync();
+      this.isPaused = false;
+      this.recordingOptions.onStatus?.({ state: 'recording', durationMillis: status.durationMillis });
 
       return {
         success: true,
-        uri: uri || undefined,
-        duration: status.durationMillis ? status.durationMillis / 1000 : undefined
+        duration: status.durationMillis
       };
     } catch (error) {
       return {
@@ -218,6 +503,101 @@ class MediaService {
     }
   }
 
+  async stopAudioRecording(): Promise<MediaResult> {
+    const recording = this.audioRecording;
+    const { onStatus } = this.recordingOptions;
+
+    try {
+      if (!recording || !this.isRecording) {
+        return {
+          success: false,
+          error: 'No active recording'
+        };
+      }
+
+      // Clear state first so status updates fired while unloading are ignored
+      this.resetRecordingState();
+
+      const status = await recording.stopAndUnloadAsync();
+      await this.resetAudioMode();
+
+      const uri = recording.getURI() || undefined;
+      const fileInfo = uri ? await FileSystem.getInfoAsync(uri) : undefined;
+
+      const result: MediaResult = {
+        success: true,
+        uri,
+        type: 'audio',
+        fileName: uri?.split('/').pop(),
+        fileSize: fileInfo?.exists ? fileInfo.size : undefined,
+        duration: status.durationMillis
+      };
+      onStatus?.({ state: 'stopped', durationMillis: status.durationMillis, result });
+
+      return result;
+    } catch (error) {
+      const result: MediaResult = {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      };
+      onStatus?.({ state: 'stopped', durationMillis: 0, result });
+
+      return result;
+    }
+  }
+
+  // Stops the recording and throws the audio away
+  async cancelAudioRecording(): Promise<MediaResult> {
+    const recording = this.audioRecording;
+    const { onStatus } = this.recordingOptions;
+
+    try {
+      if (!recording || !this.isRecording) {
+        return {
+          success: false,
+          error: 'No active recording'
+        };
+      }
+
+      this.resetRecordingState();
+
+      const status = await recording.stopAndUnloadAsync().catch(() => recording.getStatusAsync());
+      await this.resetAudioMode();
+
+      const uri = recording.getURI();
+      if (uri) {
+        await FileSystem.deleteAsync(uri, { idempotent: true });
+      }
+      onStatus?.({ state: 'cancelled', durationMillis: status.durationMillis });
+
+      return {
+        success: true
+      };
+    } catch (error) {
+      onStatus?.({ state: 'cancelled', durationMillis: 0 });
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      };
+    }
+  }
+
+  private resetRecordingState(): void {
+    this.audioRecording?.setOnRecordingStatusUpdate(null);
+    this.audioRecording = null;
+    this.isRecording = false;
+    this.isPaused = false;
+    this.recordingOptions = {};
+  }
+
+  private async resetAudioMode(): Promise<void> {
+    try {
+      await Audio.setAudioModeAsync({ allowsRecordingIOS: false });
+    } catch (error) {
+      console.warn('Could not reset audio mode:', error);
+    }
+  }
+
   async getCurrentLocation(): Promise<LocationResult> {
     try {
       const hasPermission = await this.requestPermissions(['location']);
@@ -289,18 +669,10 @@ class MediaService {
     }
   }
 
-  async getMediaInfo(uri: string): Promise<{
-    success: boolean;
-    width?: number;
-    height?: number;
-    duration?: number;
-    fileSize?: number;
-    mimeType?: string;
-    error?: string;
-  }> {
+  async getMediaInfo(uri: string): Promise<MediaInfo> {
     try {
       const fileInfo = await FileSystem.getInfoAsync(uri);
-      
+
       if (!fileInfo.exists) {
         return {
           success: false,
@@ -308,16 +680,18 @@ class MediaService {
         };
       }
 
-      // For images, try to get dimensions
+      const mimeType = requestService.getMimeTypeFromUri(uri);
       let width: number | undefined;
       let height: number | undefined;
-      
-      try {
-        const imageInfo = await ImagePicker.getMediaLibraryPermissionsAsync();
-        // Note: ImagePicker doesn't provide image dimensions directly
-        // You might need to use a different library for this
-      } catch (error) {
-        console.warn('Could not get image dimensions:', error);
+
+      if (mimeType.startsWith('image/')) {
+        try {
+          const size = await this.getImageSize(uri);
+          width = size.width;
+          height = size.height;
+        } catch (error) {
+          console.warn('Could not get image dimensions:', error);
+        }
       }
 
       return {
@@ -325,7 +699,7 @@ class MediaService {
         width,
         height,
         fileSize: fileInfo.size,
-        mimeType: 'unknown' // You might need to determine this based on file extension
+        mimeType
       };
     } catch (error) {
       return {
@@ -345,14 +719,72 @@ class MediaService {
     }
   }
 
-  async compressImage(uri: string, quality: number = 0.8): Promise<MediaResult> {
+  async compressImage(uri: string, quality: number = 0.8): Promise<ProcessedImageResult> {
+    return this.processImage(uri, { quality });
+  }
+
+  // Resizes and re-encodes an image until it fits the byte budget. The output
+  // is always a new file without EXIF metadata.
+  async processImage(uri: string, options: ProcessImageOptions = {}): Promise<ProcessedImageResult> {
     try {
-      // Note: ImagePicker doesn't have built-in compression
-      // You might need to use a different library like expo-image-manipulator
-      // For now, we'll return the original URI
+      const fileInfo = await FileSystem.getInfoAsync(uri);
+      if (!fileInfo.exists) {
+        return {
+          success: false,
+          error: 'File does not exist'
+        };
+      }
+
+      const format = options.format ?? 'jpeg';
+      const maxBytes = options.maxBytes ?? env.MAX_IMAGE_SIZE;
+      const original = await this.getImageSize(uri);
+
+      let { width, height } = this.fitWithin(original, options.maxWidth, options.maxHeight);
+      let quality = Math.min(Math.max(options.quality ?? 0.8, 0), 1);
+      let output = await this.renderImage(uri, { width, height }, format, quality);
+      let fileSize = await this.getFileSize(output.uri);
+
+      for (let pass = 0; fileSize > maxBytes && pass < MAX_COMPRESSION_PASSES; pass++) {
+        // PNG ignores quality, so only shrinking helps there
+        if (format !== 'png' && quality > MIN_IMAGE_QUALITY) {
+          quality = Math.max(MIN_IMAGE_QUALITY, quality - 0.15);
+        } else {
+          width = Math.max(1, Math.round(width * 0.75));
+          height = Math.max(1, Math.round(height * 0.75));
+        }
+
+        await FileSystem.deleteAsync(output.uri, { idempotent: true });
+        output = await this.renderImage(uri, { width, height }, format, quality);
+        fileSize = await this.getFileSize(output.uri);
+      }
+
+      if (fileSize > maxBytes) {
+        await FileSystem.deleteAsync(output.uri, { idempotent: true });
+        return {
+          success: false,
+          error: `Image could not be compressed below ${maxBytes} bytes`
+        };
+      }
+
+      const thumbnail = options.thumbnailSize
+        ? await this.createThumbnail(output.uri, options.thumbnailSize)
+        : undefined;
+
       return {
         success: true,
-        uri: uri
+        uri: output.uri,
+        width: output.width,
+        height: output.height,
+        type: 'image',
+        fileName: output.uri.split('/').pop(),
+        fileSize,
+        mimeType: IMAGE_MIME_TYPES[format],
+        quality,
+        originalWidth: original.width,
+        originalHeight: original.height,
+        originalFileSize: fileInfo.size,
+        exifStripped: true,
+        thumbnail
       };
     } catch (error) {
       return {
@@ -362,10 +794,78 @@ class MediaService {
     }
   }
 
+  async createThumbnail(uri: string, size: number = DEFAULT_THUMBNAIL_SIZE): Promise<ImageThumbnail> {
+    const original = await this.getImageSize(uri);
+    const target = this.fitWithin(original, size, size);
+    const thumbnail = await this.renderImage(uri, target, 'jpeg', 0.7);
+
+    return {
+      uri: thumbnail.uri,
+      width: thumbnail.width,
+      height: thumbnail.height
+    };
+  }
+
+  private async getImageSize(uri: string): Promise<{ width: number; height: number }> {
+    const context = ImageManipulator.manipulate(uri);
+    try {
+      const image = await context.renderAsync();
+      const size = { width: image.width, height: image.height };
+      image.release();
+      return size;
+    } finally {
+      context.release();
+    }
+  }
+
+  private async renderImage(
+    uri: string,
+    size: { width: number; height: number },
+    format: ImageFormat,
+    quality: number
+  ) {
+    const context = ImageManipulator.manipulate(uri).resize(size);
+    try {
+      const image = await context.renderAsync();
+      const result = await image.saveAsync({ format: IMAGE_SAVE_FORMATS[format], compress: quality });
+      image.release();
+      return result;
+    } finally {
+      context.release();
+    }
+  }
+
+  // Scales the size down to fit the bounds, keeping the aspect ratio
+  private fitWithin(
+    size: { width: number; height: number },
+    maxWidth?: number,
+    maxHeight?: number
+  ): { width: number; height: number } {
+    const scale = Math.min(
+      1,
+      maxWidth ? maxWidth / size.width : 1,
+      maxHeight ? maxHeight / size.height : 1
+    );
+
+    return {
+      width: Math.max(1, Math.round(size.width * scale)),
+      height: Math.max(1, Math.round(size.height * scale))
+    };
+  }
+
+  private async getFileSize(uri: string): Promise<number> {
+    const info = await FileSystem.getInfoAsync(uri);
+    return info.exists ? info.size : 0;
+  }
+
   isRecordingAudio(): boolean {
     return this.isRecording;
   }
 
+  isAudioRecordingPaused(): boolean {
+    return this.isPaused;
+  }
+
   async cleanup(): Promise<void> {
     try {
       if (this.audioRecording && this.isRecording) {
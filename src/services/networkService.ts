@@ -0,0 +1,58 @@
+import * as Network from 'expo-network';
+
+type ConnectivityListener = (isOnline: boolean) => void;
+
+class NetworkService {
+  private state: Network.NetworkState = {};
+  private listeners = new Set<ConnectivityListener>();
+
+  constructor() {
+    Network.addNetworkStateListener(state => this.handleStateChange(state));
+    this.refresh();
+  }
+
+  private handleStateChange(state: Network.NetworkState): void {
+    const wasOnline = this.isOnline();
+    this.state = state;
+    const isOnline = this.isOnline();
+
+    if (wasOnline !== isOnline) {
+      console.log(`Network is now ${isOnline ? 'online' : 'offline'}`);
+      this.listeners.forEach(listener => {
+        try {
+          listener(isOnline);
+        } catch (error) {
+          console.error('Connectivity listener failed:', error);
+        }
+      });
+    }
+  }
+
+  async refresh(): Promise<boolean> {
+    try {
+      this.handleStateChange(await Network.getNetworkStateAsync());
+    } catch (error) {
+      console.warn('Could not read network state:', error);
+    }
+    return this.isOnline();
+  }
+
+  // Unknown reachability counts as online so a flaky probe never blocks the app
+  isOnline(): boolean {
+    return this.state.isConnected !== false && this.state.isInternetReachable !== false;
+  }
+
+  getState(): Network.NetworkState {
+    return { ...this.state };
+  }
+
+  // Called only when the device goes from online to offline or back
+  subscribe(listener: ConnectivityListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+}
+
+export const networkService = new NetworkService();
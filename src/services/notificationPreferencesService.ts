@@ -0,0 +1,119 @@
+import { env } from '../env';
+import { authSessionService } from './authSessionService';
+import { ApiResponse, requestService } from './requests';
+
+// Mirrors the notification_preferences table; one *_enabled flag per notification channel
+export interface NotificationPreferences {
+  appointments_enabled: boolean;
+  reminders_enabled: boolean;
+  prayer_requests_enabled: boolean;
+  announcements_enabled: boolean;
+  system_enabled: boolean;
+  quiet_hours_enabled: boolean;
+  // 'HH:MM' in time_zone; quiet hours may wrap past midnight
+  quiet_hours_start: string;
+  quiet_hours_end: string;
+  time_zone: string;
+  // devices.device_id values that receive nothing
+  muted_device_ids: string[];
+}
+
+export interface NotificationPreferencesResult {
+  success: boolean;
+  preferences?: NotificationPreferences;
+  error?: string;
+}
+
+const PREFERENCE_FIELDS: (keyof NotificationPreferences)[] = [
+  'appointments_enabled',
+  'reminders_enabled',
+  'prayer_requests_enabled',
+  'announcements_enabled',
+  'system_enabled',
+  'quiet_hours_enabled',
+  'quiet_hours_start',
+  'quiet_hours_end',
+  'time_zone',
+  'muted_device_ids',
+];
+
+// The signed-in user's notification preferences, kept by the
+// notification-preferences edge function and applied by send-notification
+class NotificationPreferencesService {
+  private endpoint = `${env.API_URL}/notification-preferences`;
+
+  async get(): Promise<NotificationPreferencesResult> {
+    const result = await requestService.get(this.endpoint, {
+      headers: await authSessionService.getAuthHeaders(),
+    });
+    return this.toResult(result);
+  }
+
+  // Fields left out keep their current value
+  async update(changes: Partial<NotificationPreferences>): Promise<NotificationPreferencesResult> {
+    const result = await requestService.put(this.endpoint, this.pick(changes), {
+      headers: await authSessionService.getAuthHeaders(),
+    });
+    return this.toResult(result);
+  }
+
+  // Back to the defaults: every notification, no quiet hours
+  async reset(): Promise<{ success: boolean; error?: string }> {
+    const result = await requestService.delete(this.endpoint, {
+      headers: await authSessionService.getAuthHeaders(),
+    });
+    return { success: result.success, error: result.success ? undefined : this.getError(result) };
+  }
+
+  async setDeviceMuted(deviceId: string, muted: boolean): Promise<NotificationPreferencesResult> {
+    const current = await this.get();
+    if (!current.success || !current.preferences) {
+      return current;
+    }
+
+    const others = current.preferences.muted_device_ids.filter(id => id !== deviceId);
+    return this.update({ muted_device_ids: muted ? [...others, deviceId] : others });
+  }
+
+  getDeviceTimeZone(): string {
+    return Intl.DateTimeFormat().resolvedOptions().timeZone;
+  }
+
+  // Drops anything that is not a preference, e.g. ids and timestamps from a fetched row
+  private pick(changes: Partial<NotificationPreferences>): Partial<NotificationPreferences> {
+    const picked: Partial<NotificationPreferences> = {};
+    const copy = <K extends keyof NotificationPreferences>(field: K) => {
+      if (changes[field] !== undefined) {
+        picked[field] = changes[field];
+      }
+    };
+    PREFERENCE_FIELDS.forEach(copy);
+    return picked;
+  }
+
+  private toResult(result: ApiResponse): NotificationPreferencesResult {
+    if (!result.success || !result.data?.data) {
+      return { success: false, error: this.getError(result) };
+    }
+
+    const row = result.data.data;
+    return {
+      success: true,
+      preferences: {
+        ...(this.pick(row) as NotificationPreferences),
+        // Postgres returns TIME as HH:MM:SS
+        quiet_hours_start: String(row.quiet_hours_start).slice(0, 5),
+        quiet_hours_end: String(row.quiet_hours_end).slice(0, 5),
+        muted_device_ids: row.muted_device_ids || [],
+      },
+    };
+  }
+
+  // The function's own message (e.g. 'Authentication required ...') when it sent one
+  private getError(result: ApiResponse): string {
+    const body = result.requestError && 'body' in result.requestError ? result.requestError.body : undefined;
+    return body?.error || result.error || 'Could not load notification preferences';
+  }
+}
+
+export const notificationPreferencesService = new NotificationPreferencesService();
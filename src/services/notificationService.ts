@@ -1,4 +1,6 @@
 import { env } from '../env';
+import { authSessionService } from './authSessionService';
+import type { NotificationChannelId } from './pushNotificationService';
 
 export interface SendNotificationData {
   title: string;
@@ -10,7 +12,10 @@ export interface SendNotificationData {
   platform?: 'ios' | 'android' | 'web';
   sound?: string;
   badge?: number;
-  channelId?: string;
+  // Android channel; defaults to 'appointments'
+  channelId?: NotificationChannelId;
+  // Shows the category's action buttons, e.g. 'appointment_request'
+  categoryId?: string;
 }
 
 export interface NotificationResponse {
@@ -34,8 +39,7 @@ class NotificationService {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
-          'apikey': env.SUPABASE_ANON_KEY,
-          'Authorization': `Bearer ${env.SUPABASE_ANON_KEY}`,
+          ...(await this.getAuthHeaders()),
         },
         body: JSON.stringify(notificationData),
       });
@@ -107,26 +111,8 @@ class NotificationService {
     });
   }
 
-  private async getAuthHeaders(): Promise<Record<string, string>> {
-    try {
-      // If you're using Supabase Auth, get the session token
-      // This is a placeholder - you'll need to implement based on your auth setup
-      const sessionToken = await this.getSessionToken();
-      if (sessionToken) {
-        return {
-          'Authorization': `Bearer ${sessionToken}`,
-        };
-      }
-    } catch (error) {
-      console.log('No auth token available:', error);
-    }
-    return {};
-  }
-
-  private async getSessionToken(): Promise<string | null> {
-    // Implement your auth token retrieval here
-    // This could be from AsyncStorage, SecureStore, or your auth context
-    return null;
+  private getAuthHeaders(): Promise<Record<string, string>> {
+    return authSessionService.getAuthHeaders();
   }
 }
 
@@ -0,0 +1,117 @@
+import { env } from '../env';
+
+export interface OriginPattern {
+  // 'https:' or 'http:'; null matches either
+  protocol: string | null;
+  // Host (with port when one is given); '*.example.com' entries match subdomains only
+  host: string;
+  wildcard: boolean;
+}
+
+class OriginPolicyService {
+  private patterns: OriginPattern[];
+
+  constructor() {
+    const configured = env.ALLOWED_ORIGINS
+      .split(',')
+      .map(origin => origin.trim())
+      .filter(Boolean);
+
+    this.patterns = this.parseOrigins(configured.length > 0 ? configured : [env.APP_URL]);
+  }
+
+  private parseOrigin(origin: string): OriginPattern | null {
+    const match = origin.toLowerCase().match(/^(?:(https?:)\/\/)?(\*\.)?([^/?#]+)/);
+    if (!match) {
+      return null;
+    }
+
+    return {
+      protocol: match[1] || null,
+      host: match[3],
+      wildcard: !!match[2],
+    };
+  }
+
+  private parseOrigins(origins: string[]): OriginPattern[] {
+    return origins
+      .map(origin => this.parseOrigin(origin))
+      .filter((pattern): pattern is OriginPattern => pattern !== null);
+  }
+
+  private matches(pattern: OriginPattern, protocol: string, host: string): boolean {
+    if (pattern.protocol && pattern.protocol !== protocol) {
+      return false;
+    }
+
+    if (pattern.wildcard) {
+      return host.endsWith(`.${pattern.host}`);
+    }
+
+    return host === pattern.host;
+  }
+
+  // True when the URL belongs to an origin the app trusts with the bridge
+  isAllowedUrl(url: string | undefined | null): boolean {
+    if (!url) {
+      return false;
+    }
+
+    try {
+      const parsed = new URL(url);
+      if (parsed.protocol !== 'https:' && parsed.protocol !== 'http:') {
+        return false;
+      }
+
+      const host = parsed.host.toLowerCase();
+      return this.patterns.some(pattern => this.matches(pattern, parsed.protocol, host));
+    } catch (error) {
+      console.warn('Could not parse URL for origin check:', url, error);
+      return false;
+    }
+  }
+
+  // Native requests carry the user's credentials, so they may only go to our
+  // own servers: paths under the API, the Supabase project or an allowed origin.
+  // Follows requestService.resolveUrl: only a leading '/' is relative, and the
+  // parsed URL is checked so spellings like 'https:host' can't pass as relative
+  isTrustedRequestUrl(url: string): boolean {
+    const isRelative = url.startsWith('/') && !url.startsWith('//');
+    if (!isRelative && !/^https?:\/\//i.test(url)) {
+      return false;
+    }
+
+    let parsed: URL;
+    try {
+      parsed = new URL(isRelative ? `${env.API_URL}${url}` : url);
+    } catch {
+      return false;
+    }
+
+    return this.isUnder(parsed, env.API_URL)
+      || this.isUnder(parsed, env.SUPABASE_URL)
+      || this.isAllowedUrl(parsed.href);
+  }
+
+  // Same origin as the base URL and at or below its path
+  private isUnder(url: URL, base: string): boolean {
+    try {
+      const parsedBase = new URL(base);
+      const basePath = parsedBase.pathname.replace(/\/+$/, '');
+      return url.origin === parsedBase.origin
+        && (url.pathname === basePath || url.pathname.startsWith(`${basePath}/`));
+    } catch {
+      return false;
+    }
+  }
+
+  getAllowedOrigins(): OriginPattern[] {
+    return [...this.patterns];
+  }
+
+  setAllowedOrigins(origins: string[]): void {
+    this.patterns = this.parseOrigins(origins);
+  }
+}
+
+export const originPolicyService = new OriginPolicyService();
@@ -0,0 +1,278 @@
+import * as Crypto from 'expo-crypto';
+import * as FileSystem from 'expo-file-system';
+import { authSessionService } from './authSessionService';
+import { networkService } from './networkService';
+
+export type OutboxMethod = 'POST' | 'PUT' | 'DELETE' | 'PATCH';
+
+export interface OutboxEntry {
+  id: string;
+  endpoint: string;
+  method: OutboxMethod;
+  body?: any;
+  // Never includes Authorization; see authorize
+  headers?: Record<string, string>;
+  // Send with the current session's Authorization header
+  authorize?: boolean;
+  // Sent as the Idempotency-Key header on every attempt so the server can drop duplicates
+  idempotencyKey: string;
+  attempts: number;
+  // Epoch ms before which the entry is not retried
+  nextAttemptAt: number;
+  lastError?: string;
+  createdAt: number;
+}
+
+export interface OutboxSendResult {
+  success: boolean;
+  data?: any;
+  error?: string;
+  status?: number;
+  // Sending it again cannot help, e.g. the request is malformed
+  permanent?: boolean;
+}
+
+export interface OutboxResult {
+  id: string;
+  idempotencyKey: string;
+  endpoint: string;
+  method: OutboxMethod;
+  status: 'sent' | 'failed';
+  attempts: number;
+  response: OutboxSendResult;
+}
+
+export interface EnqueueRequest {
+  endpoint: string;
+  method: OutboxMethod;
+  body?: any;
+  headers?: Record<string, string>;
+  idempotencyKey?: string;
+}
+
+type OutboxSender = (entry: OutboxEntry) => Promise<OutboxSendResult>;
+type OutboxListener = (result: OutboxResult) => void;
+
+const OUTBOX_FILE = `${FileSystem.documentDirectory}outbox.json`;
+const MAX_ATTEMPTS = 10;
+const BASE_BACKOFF = 1000;
+const MAX_BACKOFF = 5 * 60 * 1000;
+
+// Durable queue of mutations made while offline. Entries are replayed one at a
+// time, oldest first, so later requests never overtake earlier ones.
+class OutboxService {
+  private entries: OutboxEntry[] = [];
+  private listeners = new Set<OutboxListener>();
+  private sender: OutboxSender | null = null;
+  private isFlushing = false;
+  // The entry being sent, and whether clear() dropped it meanwhile
+  private inFlight: OutboxEntry | null = null;
+  private inFlightDiscarded = false;
+  private retryTimer: ReturnType<typeof setTimeout> | null = null;
+  private persisting: Promise<void> = Promise.resolve();
+  private ready: Promise<void>;
+
+  constructor() {
+    this.ready = this.restore();
+    networkService.subscribe(isOnline => {
+      if (isOnline) {
+        this.flush();
+      }
+    });
+  }
+
+  private async restore(): Promise<void> {
+    try {
+      const info = await FileSystem.getInfoAsync(OUTBOX_FILE);
+      if (info.exists) {
+        const saved: OutboxEntry[] = JSON.parse(await FileSystem.readAsStringAsync(OUTBOX_FILE));
+        // Older versions saved the caller's Authorization header
+        this.entries = saved.map(entry => {
+          const { headers, authorize } = authSessionService.stripAuthorization(entry.headers);
+          return { ...entry, headers, authorize: entry.authorize || authorize };
+        });
+      }
+    } catch (error) {
+      console.error('Error restoring outbox:', error);
+    }
+  }
+
+  private persist(): void {
+    const snapshot = JSON.stringify(this.entries);
+    this.persisting = this.persisting
+      .then(() => FileSystem.writeAsStringAsync(OUTBOX_FILE, snapshot))
+      .catch(error => console.error('Error saving outbox:', error));
+  }
+
+  // RequestService registers itself here, so the outbox does not import it back
+  setSender(sender: OutboxSender): void {
+    this.sender = sender;
+    this.flush();
+  }
+
+  subscribe(listener: OutboxListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  createIdempotencyKey(): string {
+    return Crypto.randomUUID();
+  }
+
+  async enqueue(request: EnqueueRequest): Promise<OutboxEntry> {
+    await this.ready;
+
+    const idempotencyKey = request.idempotencyKey || this.createIdempotencyKey();
+    const existing = this.entries.find(entry => entry.idempotencyKey === idempotencyKey);
+    if (existing) {
+      return { ...existing };
+    }
+
+    const { headers, authorize } = authSessionService.stripAuthorization(request.headers);
+    const entry: OutboxEntry = {
+      id: `outbox_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      endpoint: request.endpoint,
+      method: request.method,
+      body: request.body,
+      headers,
+      authorize,
+      idempotencyKey,
+      attempts: 0,
+      nextAttemptAt: 0,
+      createdAt: Date.now(),
+    };
+
+    this.entries.push(entry);
+    this.persist();
+    console.log('Request queued in outbox:', entry.method, entry.endpoint);
+
+    if (networkService.isOnline()) {
+      this.flush();
+    }
+
+    return { ...entry };
+  }
+
+  async getPending(): Promise<OutboxEntry[]> {
+    await this.ready;
+    return this.entries.map(entry => ({ ...entry }));
+  }
+
+  // Drops every pending entry, e.g. when the user who queued them logs out
+  async clear(): Promise<number> {
+    await this.ready;
+    const count = this.entries.length;
+    this.entries = [];
+    // Its response must not be reported, nor remove whatever is queued next
+    this.inFlightDiscarded = this.inFlight !== null;
+    if (this.retryTimer) {
+      clearTimeout(this.retryTimer);
+      this.retryTimer = null;
+    }
+    this.persist();
+    return count;
+  }
+
+  async flush(): Promise<void> {
+    await this.ready;
+    if (this.isFlushing || !this.sender) {
+      return;
+    }
+
+    this.isFlushing = true;
+    try {
+      while (this.entries.length > 0 && networkService.isOnline()) {
+        const entry = this.entries[0];
+        const wait = entry.nextAttemptAt - Date.now();
+        if (wait > 0) {
+          this.scheduleRetry(wait);
+          return;
+        }
+
+        entry.attempts += 1;
+        this.inFlight = entry;
+        this.inFlightDiscarded = false;
+        let response: OutboxSendResult;
+        try {
+          response = await this.sender(entry);
+        } finally {
+          this.inFlight = null;
+        }
+
+        if (this.inFlightDiscarded) {
+          this.inFlightDiscarded = false;
+          continue;
+        }
+
+        if (response.success || !this.isRetryable(response)) {
+          this.removeEntry(entry);
+          this.persist();
+          this.notify(entry, response.success ? 'sent' : 'failed', response);
+          continue;
+        }
+
+        if (entry.attempts >= MAX_ATTEMPTS) {
+          this.removeEntry(entry);
+          this.persist();
+          this.notify(entry, 'failed', response);
+          continue;
+        }
+
+        // Keep the entry at the head so order is preserved, and back off
+        const backoff = Math.min(BASE_BACKOFF * 2 ** (entry.attempts - 1), MAX_BACKOFF);
+        entry.nextAttemptAt = Date.now() + backoff;
+        entry.lastError = response.error;
+        this.persist();
+      }
+    } finally {
+      this.isFlushing = false;
+    }
+  }
+
+  // By identity: the head may have changed while the request was in flight
+  private removeEntry(entry: OutboxEntry): void {
+    this.entries = this.entries.filter(item => item !== entry);
+  }
+
+  // No status means the request never got an answer (offline, timeout)
+  private isRetryable(response: OutboxSendResult): boolean {
+    if (response.permanent) {
+      return false;
+    }
+    return !response.status || response.status === 408 || response.status === 429 || response.status >= 500;
+  }
+
+  private scheduleRetry(delay: number): void {
+    if (this.retryTimer) {
+      clearTimeout(this.retryTimer);
+    }
+    this.retryTimer = setTimeout(() => {
+      this.retryTimer = null;
+      this.flush();
+    }, delay);
+  }
+
+  private notify(entry: OutboxEntry, status: OutboxResult['status'], response: OutboxSendResult): void {
+    const result: OutboxResult = {
+      id: entry.id,
+      idempotencyKey: entry.idempotencyKey,
+      endpoint: entry.endpoint,
+      method: entry.method,
+      status,
+      attempts: entry.attempts,
+      response,
+    };
+
+    this.listeners.forEach(listener => {
+      try {
+        listener(result);
+      } catch (error) {
+        console.error('Outbox listener failed:', error);
+      }
+    });
+  }
+}
+
+export const outboxService = new OutboxService();
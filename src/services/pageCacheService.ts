@@ -0,0 +1,125 @@
+import * as Crypto from 'expo-crypto';
+import * as FileSystem from 'expo-file-system';
+import { originPolicyService } from './originPolicyService';
+
+export interface PageSnapshotInfo {
+  url: string;
+  title: string;
+  savedAt: number;
+  size: number;
+}
+
+export interface PageSnapshot extends PageSnapshotInfo {
+  html: string;
+}
+
+interface SnapshotIndexEntry extends PageSnapshotInfo {
+  file: string;
+}
+
+const CACHE_DIR = `${FileSystem.documentDirectory}page-cache/`;
+const INDEX_FILE = `${CACHE_DIR}index.json`;
+const MAX_SNAPSHOTS = 20;
+// Characters of HTML; larger pages are not worth keeping offline
+const MAX_SNAPSHOT_SIZE = 2 * 1024 * 1024;
+
+// Keeps static copies of the last agenda pages that loaded, so they can be
+// shown while the device is offline
+class PageCacheService {
+  private index: SnapshotIndexEntry[] | null = null;
+
+  private async loadIndex(): Promise<SnapshotIndexEntry[]> {
+    if (this.index) {
+      return this.index;
+    }
+
+    try {
+      const info = await FileSystem.getInfoAsync(INDEX_FILE);
+      this.index = info.exists ? JSON.parse(await FileSystem.readAsStringAsync(INDEX_FILE)) : [];
+    } catch (error) {
+      console.error('Error reading page cache index:', error);
+      this.index = [];
+    }
+    return this.index!;
+  }
+
+  private async saveIndex(index: SnapshotIndexEntry[]): Promise<void> {
+    this.index = index;
+    await FileSystem.writeAsStringAsync(INDEX_FILE, JSON.stringify(index));
+  }
+
+  async saveSnapshot(url: string, title: string, html: string): Promise<{ success: boolean; error?: string }> {
+    try {
+      if (!originPolicyService.isAllowedUrl(url)) {
+        return { success: false, error: 'Only app pages can be cached' };
+      }
+
+      // Scripts would try to reach the network again; the snapshot is a static copy
+      const staticHtml = html.replace(/<script\b[\s\S]*?<\/script>/gi, '');
+      if (staticHtml.length > MAX_SNAPSHOT_SIZE) {
+        return { success: false, error: 'Page is too large to cache' };
+      }
+
+      const key = this.normalizeUrl(url);
+      const file = `${await Crypto.digestStringAsync(Crypto.CryptoDigestAlgorithm.SHA256, key)}.html`;
+
+      await FileSystem.makeDirectoryAsync(CACHE_DIR, { intermediates: true });
+      await FileSystem.writeAsStringAsync(`${CACHE_DIR}${file}`, staticHtml);
+
+      const index = (await this.loadIndex()).filter(entry => entry.url !== key);
+      index.unshift({ url: key, title, savedAt: Date.now(), size: staticHtml.length, file });
+
+      const evicted = index.splice(MAX_SNAPSHOTS);
+      await Promise.all(evicted.map(entry =>
+        FileSystem.deleteAsync(`${CACHE_DIR}${entry.file}`, { idempotent: true })
+      ));
+      await this.saveIndex(index);
+
+      return { success: true };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      };
+    }
+  }
+
+  async getSnapshot(url: string): Promise<PageSnapshot | null> {
+    const key = this.normalizeUrl(url);
+    const entry = (await this.loadIndex()).find(item => item.url === key);
+    if (!entry) {
+      return null;
+    }
+
+    try {
+      const html = await FileSystem.readAsStringAsync(`${CACHE_DIR}${entry.file}`);
+      const { file, ...info } = entry;
+      return { ...info, html };
+    } catch (error) {
+      console.warn('Cached page is missing:', url, error);
+      return null;
+    }
+  }
+
+  // Newest first
+  async listSnapshots(): Promise<PageSnapshotInfo[]> {
+    const index = await this.loadIndex();
+    return index.map(({ file, ...info }) => info);
+  }
+
+  async clear(): Promise<void> {
+    try {
+      await FileSystem.deleteAsync(CACHE_DIR, { idempotent: true });
+      this.index = [];
+    } catch (error) {
+      console.error('Error clearing page cache:', error);
+    }
+  }
+
+  // The fragment never changes which page the server returns
+  private normalizeUrl(url: string): string {
+    return url.split('#')[0];
+  }
+}
+
+export const pageCacheService = new PageCacheService();
@@ -1,18 +1,12 @@
 import * as Device from 'expo-device';
 import * as Notifications from 'expo-notifications';
+import * as TaskManager from 'expo-task-manager';
 import { Platform } from 'react-native';
 import { env } from '../env';
-
-// Configure notification behavior
-Notifications.setNotificationHandler({
-  handleNotification: async () => ({
-    shouldShowAlert: true,
-    shouldPlaySound: true,
-    shouldSetBadge: true,
-    shouldShowBanner: true,
-    shouldShowList: true,
-  }),
-});
+import { authSessionService } from './authSessionService';
+import { deepLinkService } from './deepLinkService';
+import { originPolicyService } from './originPolicyService';
+import { requestService } from './requests';
 
 export interface PushToken {
   token: string;
@@ -32,17 +26,169 @@ export interface NotificationData {
   data?: any;
   sound?: string;
   badge?: number;
-  channelId?: string;
+  channelId?: NotificationChannelId;
+  // One of NOTIFICATION_CATEGORIES, to show its action buttons
+  categoryId?: string;
+}
+
+// A notification (or one of its action buttons) the user tapped
+export interface NotificationOpened {
+  notificationId: string;
+  // 'default' for a tap on the notification itself, otherwise the action button's identifier
+  actionIdentifier: string;
+  title: string | null;
+  body: string | null;
+  data: Record<string, any>;
+  // Text typed into a reply action
+  userText?: string;
+  // App page the tap leads to, if any
+  url?: string;
+}
+
+// How a notification that arrives while the app is in the foreground is shown
+export interface NotificationPresentation {
+  banner: boolean;
+  sound: boolean;
+  badge: boolean;
+}
+
+// Set by the web app, e.g. to not banner chat messages for the conversation on screen.
+// Rules are checked in order and the first match decides; unmatched notifications show everything.
+export interface NotificationPresentationRule extends Partial<NotificationPresentation> {
+  // Notification category (categoryIdentifier, or data.category); '*' matches any
+  category: string;
+  // Only notifications whose data has exactly these values
+  match?: Record<string, string | number | boolean>;
 }
 
+// A notification that arrived while the app was in the foreground
+export interface NotificationReceived {
+  notificationId: string;
+  category: string | null;
+  title: string | null;
+  body: string | null;
+  data: Record<string, any>;
+  presentation: NotificationPresentation;
+}
+
+type NotificationOpenedListener = (opened: NotificationOpened) => void;
+type NotificationReceivedListener = (received: NotificationReceived) => void;
+
+const DEFAULT_PRESENTATION: NotificationPresentation = { banner: true, sound: true, badge: true };
+
+// Web app routes for notifications that send an action instead of a url
+const ACTION_ROUTES: Record<string, (data: Record<string, any>) => string | null> = {
+  OPEN_APP: () => null,
+  VIEW_MESSAGE: data => data.messageId ? `/messages/${encodeURIComponent(String(data.messageId))}` : '/messages',
+  VIEW_SCHEDULE: data => data.date ? `/schedule?date=${encodeURIComponent(String(data.date))}` : '/schedule',
+};
+
+export type NotificationChannelId = 'appointments' | 'reminders' | 'prayer_requests' | 'announcements' | 'system';
+
+// Android channels, one per kind of notification, so users can mute
+// announcements without silencing appointment alerts. Android keeps a channel's
+// importance, sound and vibration once created; change those under a new id.
+// send-notification accepts the same ids.
+export const NOTIFICATION_CHANNELS: Record<NotificationChannelId, Notifications.NotificationChannelInput> = {
+  appointments: {
+    name: 'Appointments',
+    description: 'Appointment requests and changes',
+    importance: Notifications.AndroidImportance.MAX,
+    sound: env.NOTIFICATION_SOUND,
+    vibrationPattern: [...env.VIBRATION_PATTERN],
+    lightColor: env.PRIMARY_COLOR,
+  },
+  reminders: {
+    name: 'Reminders',
+    description: 'Reminders for services and agenda items',
+    importance: Notifications.AndroidImportance.HIGH,
+    sound: env.NOTIFICATION_SOUND,
+    vibrationPattern: [0, 400],
+    lightColor: env.PRIMARY_COLOR,
+  },
+  prayer_requests: {
+    name: 'Prayer requests',
+    description: 'New prayer requests and replies',
+    importance: Notifications.AndroidImportance.HIGH,
+    sound: env.NOTIFICATION_SOUND,
+    vibrationPattern: [0, 150, 100, 150],
+    lightColor: env.SECONDARY_COLOR,
+  },
+  announcements: {
+    name: 'Announcements',
+    description: 'News and announcements from your church',
+    importance: Notifications.AndroidImportance.DEFAULT,
+    sound: null,
+    enableVibrate: false,
+  },
+  system: {
+    name: 'Account and app',
+    description: 'Sign-in, sync and other messages about the app',
+    importance: Notifications.AndroidImportance.LOW,
+    sound: null,
+    enableVibrate: false,
+  },
+};
+
+// The single channel older versions created for everything
+const LEGACY_CHANNEL_ID = 'pastor_agenda_notifications';
+
+// Runs for action buttons pressed while the app is in the background or not running
+const BACKGROUND_NOTIFICATION_TASK = 'background-notification-task';
+
+// Action buttons for notifications sent with one of these categoryIds. Actions
+// that stay in the background are answered from the lock screen.
+const NOTIFICATION_CATEGORIES: Record<string, Notifications.NotificationAction[]> = {
+  appointment_request: [
+    { identifier: 'ACCEPT', buttonTitle: 'Accept', options: { opensAppToForeground: false } },
+    { identifier: 'DECLINE', buttonTitle: 'Decline', options: { opensAppToForeground: false, isDestructive: true } },
+    { identifier: 'RESCHEDULE', buttonTitle: 'Reschedule', options: { opensAppToForeground: true } },
+  ],
+  prayer_request: [
+    {
+      identifier: 'REPLY',
+      buttonTitle: 'Reply',
+      textInput: { submitButtonTitle: 'Send', placeholder: 'Write a reply' },
+      options: { opensAppToForeground: false },
+    },
+  ],
+};
+
 class PushNotificationService {
   private pushToken: string | null = null;
   private deviceId: string | null = null;
   private isRegistered = false;
+  private listenersAttached = false;
+  private openedListeners = new Set<NotificationOpenedListener>();
+  // Taps that arrived before the WebView subscribed, e.g. the one that launched the app
+  private pendingOpened: NotificationOpened[] = [];
+  // Responses already handled, so the launch response is not delivered twice
+  private handledResponses = new Set<string>();
+  private receivedListeners = new Set<NotificationReceivedListener>();
+  private presentationRules: NotificationPresentationRule[] = [];
+
+  constructor() {
+    Notifications.setNotificationHandler({
+      handleNotification: async (notification) => {
+        const { banner, sound, badge } = this.getPresentation(notification);
+        return {
+          shouldShowAlert: banner,
+          shouldShowBanner: banner,
+          shouldShowList: banner,
+          shouldPlaySound: sound,
+          shouldSetBadge: badge,
+        };
+      },
+    });
+  }
 
   async initialize(): Promise<void> {
     try {
       console.log('Initializing push notification service...');
+
+      // Local notifications and their taps have to work in development and on simulators too
+      await this.setupNotificationChannels();
+      await this.setupNotificationListeners();
       
       // Check if device is physical
       if (!Device.isDevice) {
@@ -63,15 +209,28 @@ class PushNotificationService {
       // Register for push notifications
       await this.registerForPushNotifications();
       
-      // Set up notification listeners
-      this.setupNotificationListeners();
-      
       console.log('Push notification service initialized successfully');
     } catch (error) {
       console.error('Error initializing push notification service:', error);
     }
   }
 
+  // Android 13+ asks for the notification permission once a channel exists, so this runs first
+  private async setupNotificationChannels(): Promise<void> {
+    if (Platform.OS !== 'android') {
+      return;
+    }
+
+    try {
+      await Promise.all(Object.entries(NOTIFICATION_CHANNELS).map(([id, channel]) =>
+        Notifications.setNotificationChannelAsync(id, channel)
+      ));
+      await Notifications.deleteNotificationChannelAsync(LEGACY_CHANNEL_ID);
+    } catch (error) {
+      console.error('Error creating notification channels:', error);
+    }
+  }
+
   private async registerForPushNotifications(): Promise<void> {
     try {
       // Request permissions
@@ -98,18 +257,6 @@ class PushNotificationService {
 
       console.log('Push token obtained:', this.pushToken);
 
-      // Configure notification channel for Android
-      if (Platform.OS === 'android') {
-        await Notifications.setNotificationChannelAsync(env.NOTIFICATION_CHANNEL_ID, {
-          name: env.NOTIFICATION_CHANNEL_NAME,
-          description: env.NOTIFICATION_CHANNEL_DESCRIPTION,
-          importance: Notifications.AndroidImportance.MAX,
-          vibrationPattern: [...env.VIBRATION_PATTERN],
-          lightColor: env.PRIMARY_COLOR,
-          sound: env.NOTIFICATION_SOUND,
-        });
-      }
-
       // Send token to backend
       await this.sendTokenToBackend();
 
@@ -140,8 +287,7 @@ class PushNotificationService {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
-          'apikey': env.SUPABASE_ANON_KEY,
-          'Authorization': `Bearer ${env.SUPABASE_ANON_KEY}`,
+          ...(await this.getAuthHeaders()),
         },
         body: JSON.stringify(pushToken),
       });
@@ -158,34 +304,23 @@ class PushNotificationService {
     }
   }
 
-  private async getAuthHeaders(): Promise<Record<string, string>> {
-    try {
-      // If you're using Supabase Auth, get the session token
-      // This is a placeholder - you'll need to implement based on your auth setup
-      const sessionToken = await this.getSessionToken();
-      if (sessionToken) {
-        return {
-          'Authorization': `Bearer ${sessionToken}`,
-        };
-      }
-    } catch (error) {
-      console.log('No auth token available:', error);
-    }
-    return {};
+  // The signed-in user's token lets register-device bind this device to them
+  private getAuthHeaders(): Promise<Record<string, string>> {
+    return authSessionService.getAuthHeaders();
   }
 
-  private async getSessionToken(): Promise<string | null> {
-    // Implement your auth token retrieval here
-    // This could be from AsyncStorage, SecureStore, or your auth context
-    // For now, return null to allow anonymous device registration
-    return null;
-  }
+  private async setupNotificationListeners(): Promise<void> {
+    if (this.listenersAttached) {
+      return;
+    }
+    this.listenersAttached = true;
+
+    await this.registerCategories();
 
-  private setupNotificationListeners(): void {
     // Handle notification received while app is in foreground
     Notifications.addNotificationReceivedListener((notification) => {
       console.log('Notification received in foreground:', notification);
-      // You can handle foreground notifications here
+      this.handleNotificationReceived(notification);
     });
 
     // Handle notification tapped/opened
@@ -193,46 +328,234 @@ class PushNotificationService {
       console.log('Notification response received:', response);
       this.handleNotificationResponse(response);
     });
+
+    // The tap that cold-started the app fired before the listener existed
+    try {
+      const launchResponse = await Notifications.getLastNotificationResponseAsync();
+      if (launchResponse) {
+        this.handleNotificationResponse(launchResponse);
+        await Notifications.clearLastNotificationResponseAsync();
+      }
+    } catch (error) {
+      console.warn('Could not read the notification that opened the app:', error);
+    }
   }
 
-  private handleNotificationResponse(response: Notifications.NotificationResponse): void {
-    const { notification } = response;
-    const data = notification.request.content.data;
+  private async registerCategories(): Promise<void> {
+    try {
+      await Promise.all(Object.entries(NOTIFICATION_CATEGORIES).map(([identifier, actions]) =>
+        Notifications.setNotificationCategoryAsync(identifier, actions)
+      ));
+    } catch (error) {
+      console.warn('Could not register notification categories:', error);
+    }
+  }
+
+  // Delivers taps to the listener, queued ones first. Taps are held while nobody listens.
+  subscribeToOpened(listener: NotificationOpenedListener): () => void {
+    this.openedListeners.add(listener);
+
+    const pending = this.pendingOpened;
+    this.pendingOpened = [];
+    pending.forEach(opened => this.notifyOpened(opened));
+
+    return () => {
+      this.openedListeners.delete(listener);
+    };
+  }
+
+  subscribeToReceived(listener: NotificationReceivedListener): () => void {
+    this.receivedListeners.add(listener);
+    return () => {
+      this.receivedListeners.delete(listener);
+    };
+  }
+
+  // Replaces all rules; an empty list restores the default of showing everything
+  setPresentationRules(rules: NotificationPresentationRule[]): { success: boolean; error?: string } {
+    const invalid = rules.find(rule =>
+      typeof rule?.category !== 'string' ||
+      (rule.match !== undefined && (typeof rule.match !== 'object' || rule.match === null)) ||
+      (['banner', 'sound', 'badge'] as const).some(key => rule[key] !== undefined && typeof rule[key] !== 'boolean')
+    );
+    if (invalid) {
+      return { success: false, error: `Invalid presentation rule: ${JSON.stringify(invalid)}` };
+    }
+
+    this.presentationRules = rules.map(rule => ({ ...rule }));
+    return { success: true };
+  }
+
+  private getPresentation(notification: Notifications.Notification): NotificationPresentation {
+    const category = this.getCategory(notification);
+    const data = notification.request.content.data || {};
+
+    const rule = this.presentationRules.find(candidate =>
+      (candidate.category === '*' || candidate.category === category) &&
+      Object.entries(candidate.match || {}).every(([key, value]) => data[key] === value)
+    );
+
+    return {
+      banner: rule?.banner ?? DEFAULT_PRESENTATION.banner,
+      sound: rule?.sound ?? DEFAULT_PRESENTATION.sound,
+      badge: rule?.badge ?? DEFAULT_PRESENTATION.badge,
+    };
+  }
+
+  private getCategory(notification: Notifications.Notification): string | null {
+    const { categoryIdentifier, data } = notification.request.content;
+    if (categoryIdentifier) {
+      return categoryIdentifier;
+    }
+    return typeof data?.category === 'string' ? data.category : null;
+  }
+
+  private handleNotificationReceived(notification: Notifications.Notification): void {
+    const { title, body } = notification.request.content;
+    const received: NotificationReceived = {
+      notificationId: notification.request.identifier,
+      category: this.getCategory(notification),
+      title,
+      body,
+      data: notification.request.content.data || {},
+      presentation: this.getPresentation(notification),
+    };
+
+    this.receivedListeners.forEach(listener => {
+      try {
+        listener(received);
+      } catch (error) {
+        console.error('Notification received listener failed:', error);
+      }
+    });
+  }
+
+  // Answers from the background task; other payloads are plain notifications
+  handleTaskPayload(payload: Notifications.NotificationTaskPayload): Promise<void> {
+    if (!('actionIdentifier' in payload)) {
+      return Promise.resolve();
+    }
+    return this.handleNotificationResponse(payload);
+  }
+
+  // Resolves once the action has been sent or queued, so the background task can wait for it
+  private handleNotificationResponse(response: Notifications.NotificationResponse): Promise<void> {
+    const { notification, actionIdentifier } = response;
+    const key = `${notification.request.identifier}:${actionIdentifier}`;
+    if (this.handledResponses.has(key)) {
+      return Promise.resolve();
+    }
+    this.handledResponses.add(key);
+
+    const { title, body } = notification.request.content;
+    const data = notification.request.content.data || {};
 
     console.log('Handling notification response:', data);
 
-    // Handle deep linking based on notification data
-    if (data?.url && typeof data.url === 'string') {
-      // Navigate to specific URL in WebView
-      this.navigateToUrl(data.url);
-    } else if (data?.action && typeof data.action === 'string') {
-      // Handle specific actions
-      this.handleNotificationAction(data.action, data);
+    // Category actions go to the backend; background ones also leave the page alone
+    const action = this.findCategoryAction(notification, actionIdentifier);
+    const inBackground = action?.options?.opensAppToForeground === false;
+    const submitted = action
+      ? this.submitAction(notification, action.identifier, response.userText)
+      : Promise.resolve();
+    if (inBackground) {
+      Notifications.dismissNotificationAsync(notification.request.identifier).catch(error => {
+        console.warn('Could not dismiss answered notification:', error);
+      });
+    }
+
+    const url = inBackground ? null : this.resolveNotificationUrl(data);
+    const opened: NotificationOpened = {
+      notificationId: notification.request.identifier,
+      actionIdentifier: actionIdentifier === Notifications.DEFAULT_ACTION_IDENTIFIER ? 'default' : actionIdentifier,
+      title,
+      body,
+      data,
+      ...(response.userText ? { userText: response.userText } : {}),
+      ...(url ? { url } : {}),
+    };
+
+    if (this.openedListeners.size === 0) {
+      this.pendingOpened.push(opened);
+    } else {
+      this.notifyOpened(opened);
+    }
+    return submitted;
+  }
+
+  private findCategoryAction(
+    notification: Notifications.Notification,
+    actionIdentifier: string
+  ): Notifications.NotificationAction | null {
+    const category = this.getCategory(notification);
+    const actions = category ? NOTIFICATION_CATEGORIES[category] : undefined;
+    return actions?.find(action => action.identifier === actionIdentifier) ?? null;
+  }
+
+  // Posts the answer to the notification's data.actionUrl, queued while offline.
+  // The key makes a response that is handled twice count once.
+  private async submitAction(notification: Notifications.Notification, action: string, text?: string): Promise<void> {
+    const data = notification.request.content.data || {};
+    const actionUrl = data.actionUrl;
+    if (typeof actionUrl !== 'string') {
+      return;
+    }
+    if (!originPolicyService.isTrustedRequestUrl(actionUrl)) {
+      console.warn('Ignoring notification actionUrl outside the app:', actionUrl);
+      return;
+    }
+
+    const result = await requestService.request(actionUrl, {
+      method: 'POST',
+      body: {
+        notificationId: notification.request.identifier,
+        category: this.getCategory(notification),
+        action,
+        text,
+        data,
+      },
+      queueable: true,
+      idempotencyKey: `notification:${notification.request.identifier}:${action}`,
+    });
+
+    if (result.success) {
+      console.log('Notification action sent:', action);
+    } else if (!result.queued) {
+      console.warn('Failed to send notification action:', action, result.error);
     }
   }
 
-  private navigateToUrl(url: string): void {
-    // This would typically communicate with the WebView to navigate
-    // For now, we'll just log it
-    console.log('Navigate to URL:', url);
-  }
-
-  private handleNotificationAction(action: string, data: any): void {
-    console.log('Handle notification action:', action, data);
-    // Handle different notification actions
-    switch (action) {
-      case 'OPEN_APP':
-        // App is already open, just bring to foreground
-        break;
-      case 'VIEW_MESSAGE':
-        // Navigate to specific message
-        break;
-      case 'VIEW_SCHEDULE':
-        // Navigate to schedule
-        break;
-      default:
-        console.log('Unknown notification action:', action);
+  // data.url wins over data.action; either must resolve to a page of the web app
+  private resolveNotificationUrl(data: Record<string, any>): string | null {
+    if (typeof data.url === 'string') {
+      const url = deepLinkService.resolve(data.url);
+      if (!url) {
+        console.warn('Ignoring notification url outside the app:', data.url);
+      }
+      return url;
+    }
+
+    if (typeof data.action === 'string') {
+      const route = ACTION_ROUTES[data.action];
+      if (!route) {
+        console.log('Unknown notification action:', data.action);
+        return null;
+      }
+      const path = route(data);
+      return path ? deepLinkService.resolve(path) : null;
     }
+
+    return null;
+  }
+
+  private notifyOpened(opened: NotificationOpened): void {
+    this.openedListeners.forEach(listener => {
+      try {
+        listener(opened);
+      } catch (error) {
+        console.error('Notification opened listener failed:', error);
+      }
+    });
   }
 
   async scheduleLocalNotification(notificationData: NotificationData): Promise<string> {
@@ -244,8 +567,10 @@ class PushNotificationService {
           data: notificationData.data || {},
           sound: notificationData.sound || env.NOTIFICATION_SOUND,
           badge: notificationData.badge,
+          categoryIdentifier: notificationData.categoryId,
         },
-        trigger: null, // Show immediately
+        // Show immediately
+        trigger: { channelId: notificationData.channelId || env.NOTIFICATION_CHANNEL_ID },
       });
 
       console.log('Local notification scheduled:', notificationId);
@@ -268,9 +593,11 @@ class PushNotificationService {
           data: notificationData.data || {},
           sound: notificationData.sound || env.NOTIFICATION_SOUND,
           badge: notificationData.badge,
+          categoryIdentifier: notificationData.categoryId,
         },
         trigger: {
           seconds: delaySeconds,
+          channelId: notificationData.channelId || env.NOTIFICATION_CHANNEL_ID,
         } as Notifications.TimeIntervalTriggerInput,
       });
 
@@ -363,8 +690,7 @@ class PushNotificationService {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
-          'apikey': env.SUPABASE_ANON_KEY,
-          'Authorization': `Bearer ${env.SUPABASE_ANON_KEY}`,
+          ...(await this.getAuthHeaders()),
         },
         body: JSON.stringify(pushToken),
       });
@@ -380,6 +706,61 @@ class PushNotificationService {
       console.error('Error updating user info:', error);
     }
   }
+
+  // Detaches the user who is logging out from this device. Holding the push token is
+  // proof enough, so this works after the session is gone and is queued while offline.
+  // The user id keeps a late replay from detaching whoever signed in next.
+  async unregisterUser(userId?: string): Promise<{ success: boolean; queued?: boolean; error?: string }> {
+    if (!this.pushToken || !this.deviceId || !userId) {
+      // Never registered, or never bound: devices are bound only from a verified session
+      return { success: true };
+    }
+
+    const result = await requestService.request(`${env.API_URL}/register-device`, {
+      method: 'DELETE',
+      headers: {
+        'apikey': env.SUPABASE_ANON_KEY,
+        'Authorization': `Bearer ${env.SUPABASE_ANON_KEY}`,
+      },
+      body: {
+        token: this.pushToken,
+        deviceId: this.deviceId,
+        platform: Platform.OS,
+        userId,
+      },
+      queueable: true,
+    });
+
+    if (result.success) {
+      console.log('User detached from device');
+    } else if (!result.queued) {
+      console.warn('Failed to detach user from device:', result.error);
+    }
+
+    return { success: result.success, queued: result.queued, error: result.error };
+  }
+
+  // Removes scheduled and delivered notifications, resets the badge and the page's presentation rules
+  async clearUserNotifications(): Promise<void> {
+    this.presentationRules = [];
+    await this.cancelAllNotifications();
+    await Notifications.dismissAllNotificationsAsync();
+    await this.setBadgeCount(0);
+  }
 }
 
 export const pushNotificationService = new PushNotificationService();
+
+// Android delivers background action presses only to this task, not to the response
+// listener, and may start the app just to run it; both calls belong at module scope
+TaskManager.defineTask<Notifications.NotificationTaskPayload>(BACKGROUND_NOTIFICATION_TASK, async ({ data, error }) => {
+  if (error) {
+    console.error('Background notification task failed:', error);
+    return;
+  }
+  await pushNotificationService.handleTaskPayload(data);
+});
+
+Notifications.registerTaskAsync(BACKGROUND_NOTIFICATION_TASK).catch(error => {
+  console.warn('Could not register background notification task:', error);
+});
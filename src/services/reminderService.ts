@@ -0,0 +1,275 @@
+import * as Notifications from 'expo-notifications';
+import { env } from '../env';
+import type { NotificationChannelId } from './pushNotificationService';
+
+export type ReminderRepeat = 'none' | 'daily' | 'weekly';
+
+export interface ReminderInput {
+  // Chosen by the web app, e.g. the agenda item id; scheduling the same key again replaces the reminder
+  key: string;
+  title: string;
+  body?: string;
+  // ISO 8601. With an offset ('Z', '-03:00') it is an exact instant, without one
+  // it is the wall-clock time in timeZone
+  date: string;
+  // IANA zone such as 'America/Sao_Paulo'; defaults to the device's zone
+  timeZone?: string;
+  // Repeating reminders fire at the same wall-clock time every day or week,
+  // starting with the next occurrence, so date must be at most one period ahead.
+  // The OS repeats them on the device clock: with a timeZone other than the
+  // device's, a DST change in only one of the zones shifts them by an hour until
+  // they are scheduled again
+  repeat?: ReminderRepeat;
+  data?: Record<string, any>;
+  // Notification category, to show its action buttons
+  categoryId?: string;
+}
+
+export interface ScheduledReminder {
+  key: string;
+  title: string;
+  body: string | null;
+  date: string;
+  timeZone: string;
+  repeat: ReminderRepeat;
+  // Next time it fires, as epoch ms
+  fireAt: number;
+  data: Record<string, any>;
+}
+
+export interface ReminderResult {
+  success: boolean;
+  reminder?: ScheduledReminder;
+  error?: string;
+}
+
+// Kept in the notification's data so reminders can be listed back
+interface ReminderMetadata {
+  key: string;
+  date: string;
+  timeZone: string;
+  repeat: ReminderRepeat;
+  // date as epoch ms
+  fireAt: number;
+}
+
+const IDENTIFIER_PREFIX = 'reminder:';
+const REMINDER_CHANNEL_ID: NotificationChannelId = 'reminders';
+const METADATA_KEY = '_reminder';
+const REPEAT_DAYS: Record<Exclude<ReminderRepeat, 'none'>, number> = { daily: 1, weekly: 7 };
+const DAY_MS = 24 * 60 * 60 * 1000;
+const LOCAL_DATE_TIME = /^(\d{4})-(\d{2})-(\d{2})T(\d{2}):(\d{2})(?::(\d{2}))?(?:\.\d+)?$/;
+
+const getErrorMessage = (error: unknown): string =>
+  error instanceof Error ? error.message : 'Unknown error';
+
+// Local notifications for agenda items, scheduled by the web app. Reminders
+// live only in the OS scheduler, keyed by the web app's own ids.
+class ReminderService {
+  async schedule(input: ReminderInput): Promise<ReminderResult> {
+    try {
+      const timeZone = input.timeZone || this.getDeviceTimeZone();
+      if (!this.isValidTimeZone(timeZone)) {
+        return { success: false, error: `Unknown time zone: ${timeZone}` };
+      }
+
+      const fireAt = this.toInstant(input.date, timeZone);
+      if (fireAt === null) {
+        return { success: false, error: `Invalid date: ${input.date}` };
+      }
+
+      const repeat = input.repeat || 'none';
+      if (repeat === 'none' && fireAt <= Date.now()) {
+        return { success: false, error: 'Reminder date is in the past' };
+      }
+      // Repeating triggers only know the time of day and weekday, so a later start
+      // would fire early; the web app schedules those closer to the first occurrence
+      if (repeat !== 'none' && fireAt - Date.now() > REPEAT_DAYS[repeat] * DAY_MS) {
+        return { success: false, error: `A ${repeat} reminder must start within one ${repeat === 'daily' ? 'day' : 'week'}` };
+      }
+
+      if (!(await this.ensurePermission())) {
+        return { success: false, error: 'Notification permission denied' };
+      }
+
+      const metadata: ReminderMetadata = { key: input.key, date: input.date, timeZone, repeat, fireAt };
+      const identifier = this.getIdentifier(input.key);
+
+      // Replacing by identifier is not guaranteed on every platform, so drop the old one first
+      await Notifications.cancelScheduledNotificationAsync(identifier);
+      await Notifications.scheduleNotificationAsync({
+        identifier,
+        content: {
+          title: input.title,
+          body: input.body ?? null,
+          data: { ...input.data, [METADATA_KEY]: metadata },
+          sound: env.NOTIFICATION_SOUND,
+          categoryIdentifier: input.categoryId,
+        },
+        trigger: this.createTrigger(fireAt, repeat),
+      });
+
+      console.log('Reminder scheduled:', input.key, new Date(fireAt).toISOString(), repeat);
+      return { success: true, reminder: this.toReminder(input.title, input.body ?? null, input.data || {}, metadata) };
+    } catch (error) {
+      console.error('Error scheduling reminder:', error);
+      return { success: false, error: getErrorMessage(error) };
+    }
+  }
+
+  async cancel(key: string): Promise<{ success: boolean; cancelled: boolean; error?: string }> {
+    try {
+      const identifier = this.getIdentifier(key);
+      const scheduled = await Notifications.getAllScheduledNotificationsAsync();
+      const exists = scheduled.some(request => request.identifier === identifier);
+
+      await Notifications.cancelScheduledNotificationAsync(identifier);
+      return { success: true, cancelled: exists };
+    } catch (error) {
+      console.error('Error cancelling reminder:', error);
+      return { success: false, cancelled: false, error: getErrorMessage(error) };
+    }
+  }
+
+  async list(): Promise<ScheduledReminder[]> {
+    const scheduled = await Notifications.getAllScheduledNotificationsAsync();
+
+    return scheduled
+      .filter(request => request.identifier.startsWith(IDENTIFIER_PREFIX))
+      .map(request => {
+        const { [METADATA_KEY]: metadata, ...data } = request.content.data || {};
+        return metadata
+          ? this.toReminder(request.content.title || '', request.content.body, data, metadata as ReminderMetadata)
+          : null;
+      })
+      .filter((reminder): reminder is ScheduledReminder => reminder !== null)
+      .sort((a, b) => a.fireAt - b.fireAt);
+  }
+
+  private getIdentifier(key: string): string {
+    return `${IDENTIFIER_PREFIX}${key}`;
+  }
+
+  // Daily and weekly triggers use the device clock, so the reminder's
+  // wall-clock time is converted to the device's zone first
+  private createTrigger(fireAt: number, repeat: ReminderRepeat): Notifications.NotificationTriggerInput {
+    const local = new Date(fireAt);
+
+    switch (repeat) {
+      case 'daily':
+        return {
+          type: Notifications.SchedulableTriggerInputTypes.DAILY,
+          hour: local.getHours(),
+          minute: local.getMinutes(),
+          channelId: REMINDER_CHANNEL_ID,
+        };
+      case 'weekly':
+        return {
+          type: Notifications.SchedulableTriggerInputTypes.WEEKLY,
+          // 1 is Sunday
+          weekday: local.getDay() + 1,
+          hour: local.getHours(),
+          minute: local.getMinutes(),
+          channelId: REMINDER_CHANNEL_ID,
+        };
+      default:
+        return {
+          type: Notifications.SchedulableTriggerInputTypes.DATE,
+          date: fireAt,
+          channelId: REMINDER_CHANNEL_ID,
+        };
+    }
+  }
+
+  // Epoch ms for an ISO date, reading dates without an offset in timeZone
+  private toInstant(date: string, timeZone: string): number | null {
+    const local = date.match(LOCAL_DATE_TIME);
+    if (!local) {
+      const instant = Date.parse(date);
+      return /T.*(Z|[+-]\d{2}:?\d{2})$/i.test(date) && !isNaN(instant) ? instant : null;
+    }
+
+    const [, year, month, day, hour, minute, second = '0'] = local;
+    const wallClock = Date.UTC(+year, +month - 1, +day, +hour, +minute, +second);
+
+    // The zone's offset at the guessed instant, corrected once for DST changes in between
+    const offset = this.getZoneOffset(wallClock, timeZone);
+    const instant = wallClock - offset;
+    const correctedOffset = this.getZoneOffset(instant, timeZone);
+    return correctedOffset === offset ? instant : wallClock - correctedOffset;
+  }
+
+  // Milliseconds the zone's wall clock is ahead of UTC at the given instant
+  private getZoneOffset(instant: number, timeZone: string): number {
+    const parts = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit',
+    }).formatToParts(new Date(instant));
+
+    const get = (type: Intl.DateTimeFormatPartTypes) => Number(parts.find(part => part.type === type)?.value);
+    const wallClock = Date.UTC(get('year'), get('month') - 1, get('day'), get('hour'), get('minute'), get('second'));
+    return wallClock - Math.floor(instant / 1000) * 1000;
+  }
+
+  private getDeviceTimeZone(): string {
+    return Intl.DateTimeFormat().resolvedOptions().timeZone;
+  }
+
+  private isValidTimeZone(timeZone: string): boolean {
+    try {
+      new Intl.DateTimeFormat('en-US', { timeZone });
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  private async ensurePermission(): Promise<boolean> {
+    const { status } = await Notifications.getPermissionsAsync();
+    if (status === 'granted') {
+      return true;
+    }
+    const request = await Notifications.requestPermissionsAsync();
+    return request.status === 'granted';
+  }
+
+  private toReminder(
+    title: string,
+    body: string | null,
+    data: Record<string, any>,
+    metadata: ReminderMetadata
+  ): ScheduledReminder {
+    return {
+      key: metadata.key,
+      title,
+      body,
+      date: metadata.date,
+      timeZone: metadata.timeZone,
+      repeat: metadata.repeat,
+      fireAt: this.getNextFireAt(metadata),
+      data,
+    };
+  }
+
+  // Repeating reminders move on by whole days on the device clock, like their trigger
+  private getNextFireAt(metadata: ReminderMetadata): number {
+    if (metadata.repeat === 'none') {
+      return metadata.fireAt;
+    }
+
+    const next = new Date(metadata.fireAt);
+    const now = Date.now();
+    while (next.getTime() <= now) {
+      next.setDate(next.getDate() + REPEAT_DAYS[metadata.repeat]);
+    }
+    return next.getTime();
+  }
+}
+
+export const reminderService = new ReminderService();
@@ -1,99 +1,507 @@
+import * as FileSystem from 'expo-file-system';
 import { env } from '../env';
+import { authSessionService } from './authSessionService';
+import { fileDownloadService } from './fileDownloadService';
+import { networkService } from './networkService';
+import { OutboxMethod, outboxService } from './outboxService';
+import { uploadManagerService } from './uploadManagerService';
+
+export type HttpMethod = 'GET' | 'POST' | 'PUT' | 'DELETE' | 'PATCH';
+
+// What went wrong, discriminated by kind. `error` on ApiResponse keeps the
+// human-readable message for callers that only display it.
+export type RequestError =
+  | { kind: 'network'; message: string }
+  // The request could not be built, e.g. a malformed URL or a throwing interceptor
+  | { kind: 'invalid'; message: string }
+  // A downloaded file whose size or checksum does not match what the server announced
+  | { kind: 'integrity'; message: string; status: number }
+  | { kind: 'timeout'; message: string; timeout: number }
+  | { kind: 'cancelled'; message: string }
+  | { kind: 'http'; message: string; status: number; body?: any }
+  | { kind: 'auth'; message: string; status: number; body?: any }
+  | { kind: 'parse'; message: string; status: number; body: string };
 
 export interface ApiResponse<T = any> {
   success: boolean;
   data?: T;
   error?: string;
+  requestError?: RequestError;
   status?: number;
+  // Set when the request could not be sent now and waits in the outbox
+  queued?: boolean;
+  outboxId?: string;
+}
+
+export type QueryValue = string | number | boolean | null | undefined;
+
+export interface RetryPolicy {
+  // Attempts after the first one
+  retries: number;
+  // Methods safe to repeat; other methods retry only with an idempotency key
+  methods: HttpMethod[];
+  statuses: number[];
+  retryOnNetworkError: boolean;
+  // Exponential backoff bounds in ms; Retry-After takes precedence when present,
+  // and a Retry-After longer than maxDelay ends the retries
+  baseDelay: number;
+  maxDelay: number;
 }
 
 export interface RequestOptions {
-  method?: 'GET' | 'POST' | 'PUT' | 'DELETE' | 'PATCH';
+  method?: HttpMethod;
   headers?: Record<string, string>;
   body?: any;
+  // Appended to the URL; arrays repeat the key, null/undefined are skipped
+  query?: Record<string, QueryValue | QueryValue[]>;
+  timeout?: number;
+  signal?: AbortSignal;
+  // 'auto' parses JSON when the server says so and returns text otherwise
+  responseType?: 'auto' | 'json' | 'text';
+  // Overrides the service policy for this call; false disables retries
+  retry?: Partial<RetryPolicy> | false;
+  // Non-GET requests only: keep the request in the outbox and replay it once
+  // online instead of failing when there is no connection
+  queueable?: boolean;
+  // Sent as Idempotency-Key; generated for queueable requests when omitted
+  idempotencyKey?: string;
+}
+
+// Interceptors see the request after the URL, headers and body are built
+export interface PreparedRequest {
+  url: string;
+  method: HttpMethod;
+  headers: Record<string, string>;
+  body?: string;
+  timeout: number;
+}
+
+export type RequestInterceptor = (request: PreparedRequest) => PreparedRequest | Promise<PreparedRequest>;
+export type ResponseInterceptor = (
+  response: ApiResponse,
+  request: PreparedRequest
+) => ApiResponse | Promise<ApiResponse>;
+
+const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  retries: 2,
+  methods: ['GET', 'PUT', 'DELETE'],
+  statuses: [408, 429, 500, 502, 503, 504],
+  retryOnNetworkError: true,
+  baseDelay: 500,
+  maxDelay: 10000,
+};
+
+export interface UploadProgress {
+  totalBytesSent: number;
+  totalBytesExpectedToSend: number;
+  // 0 to 1
+  progress: number;
+}
+
+export interface UploadOptions {
+  method?: 'POST' | 'PUT' | 'PATCH';
+  headers?: Record<string, string>;
+  mimeType?: string;
+  signal?: AbortSignal;
+  // Gives up when no bytes move for this long, in ms; uploads have no total limit
+  timeout?: number;
+  // Same rules as requests: POST is only retried with an idempotency key
+  retry?: Partial<RetryPolicy> | false;
+  idempotencyKey?: string;
+  // Sends the file through the resumable upload queue (tus) instead of one
+  // multipart request; the server must speak tus and the endpoint creates the upload
+  resumable?: boolean;
+  metadata?: Record<string, string>;
+}
+
+// What a resumable upload resolves with instead of the server's response body
+export interface ResumableUploadResult {
+  uploadId: string;
+  uploadUrl?: string;
+}
+
+export interface DownloadOptions {
+  headers?: Record<string, string>;
+  // Overrides the name from Content-Disposition or the URL
+  fileName?: string;
+  // Defaults to the app's downloads directory
+  directory?: string;
+  // Expected MD5 (hex); a Content-MD5 response header is checked as well
+  md5?: string;
+  signal?: AbortSignal;
+  // Gives up when no bytes arrive for this long, in ms
   timeout?: number;
 }
 
+export interface DownloadedFile {
+  uri: string;
+  fileName: string;
+  mimeType: string;
+  size: number;
+  md5?: string;
+}
+
+export interface UploadFileEntry {
+  uri: string;
+  fieldName?: string;
+  // Defaults to the file's own name
+  name?: string;
+  mimeType?: string;
+}
+
 class RequestService {
   private baseUrl: string;
   private defaultTimeout: number;
+  private retryPolicy: RetryPolicy = DEFAULT_RETRY_POLICY;
+  private requestInterceptors: RequestInterceptor[] = [];
+  private responseInterceptors: ResponseInterceptor[] = [];
 
   constructor() {
     this.baseUrl = env.API_URL;
     this.defaultTimeout = 10000; // 10 seconds
+
+    // Outbox replays skip the queueing path so a failed replay is not queued
+    // twice, and leave retrying to the outbox's own backoff
+    outboxService.setSender(async entry => {
+      const response = await this.request(entry.endpoint, {
+        method: entry.method,
+        body: entry.body,
+        headers: entry.authorize
+          ? { ...entry.headers, ...(await authSessionService.getAuthHeaders()) }
+          : entry.headers,
+        idempotencyKey: entry.idempotencyKey,
+        retry: false,
+      });
+      // A request that cannot be built fails the same way on every replay
+      return { ...response, permanent: response.requestError?.kind === 'invalid' };
+    });
   }
 
   async request<T = any>(
     endpoint: string,
     options: RequestOptions = {}
   ): Promise<ApiResponse<T>> {
+    const method = options.method || 'GET';
+    const queueable = !!options.queueable && method !== 'GET';
+    const idempotencyKey = options.idempotencyKey || (queueable ? outboxService.createIdempotencyKey() : undefined);
+
+    // Never queue what could not be sent even once online
+    if (queueable) {
+      try {
+        this.resolveUrl(endpoint);
+      } catch (error) {
+        return this.invalidUrl<T>(error);
+      }
+    }
+
+    if (queueable && !networkService.isOnline()) {
+      return this.queueRequest<T>(endpoint, { ...options, idempotencyKey }, 'Offline');
+    }
+
+    const response = await this.send<T>(endpoint, { ...options, idempotencyKey });
+
+    const kind = response.requestError?.kind;
+    if (queueable && (kind === 'network' || kind === 'timeout')) {
+      return this.queueRequest<T>(endpoint, { ...options, idempotencyKey }, response.error);
+    }
+
+    return response;
+  }
+
+  private async queueRequest<T>(endpoint: string, options: RequestOptions, reason?: string): Promise<ApiResponse<T>> {
+    const entry = await outboxService.enqueue({
+      endpoint,
+      method: options.method as OutboxMethod,
+      body: options.body,
+      headers: options.headers,
+      idempotencyKey: options.idempotencyKey,
+    });
+
+    return {
+      success: false,
+      error: `Request queued until online${reason ? ` (${reason})` : ''}`,
+      queued: true,
+      outboxId: entry.id,
+    };
+  }
+
+  private async send<T = any>(
+    endpoint: string,
+    options: RequestOptions = {}
+  ): Promise<ApiResponse<T>> {
+    let prepared: PreparedRequest;
     try {
-      const {
-        method = 'GET',
-        headers = {},
-        body,
-        timeout = this.defaultTimeout
-      } = options;
-
-      const url = endpoint.startsWith('http') ? endpoint : `${this.baseUrl}${endpoint}`;
-      
-      const requestHeaders: Record<string, string> = {
-        'Content-Type': 'application/json',
-        'Accept': 'application/json',
-        ...headers,
-      };
+      prepared = await this.prepareRequest(endpoint, options);
+    } catch (error) {
+      return this.failure({ kind: 'invalid', message: error instanceof Error ? error.message : 'Invalid request' });
+    }
 
-      // Add authorization header if available
-      const token = await this.getAuthToken();
-      if (token) {
-        requestHeaders['Authorization'] = `Bearer ${token}`;
+    const policy = this.resolveRetryPolicy(options.retry);
+
+    for (let attempt = 0; ; attempt++) {
+      const { response, retryAfter } = await this.execute<T>(prepared, options);
+      const result = await this.applyResponseInterceptors(response, prepared);
+
+      if (result.success || attempt >= policy.retries || !this.shouldRetry(result, prepared.method, options.idempotencyKey, policy)) {
+        return result;
+      }
+      // The caller would be long gone before the server wants to see us again
+      if (retryAfter !== undefined && retryAfter > policy.maxDelay) {
+        return result;
       }
 
-      const controller = new AbortController();
-      const timeoutId = setTimeout(() => controller.abort(), timeout);
+      const delay = retryAfter ?? Math.min(policy.baseDelay * 2 ** attempt, policy.maxDelay);
+      console.log(`Retrying ${prepared.method} ${prepared.url} in ${delay}ms (attempt ${attempt + 2})`);
+      if (!(await this.wait(delay, options.signal))) {
+        return this.failure({ kind: 'cancelled', message: 'Request cancelled' });
+      }
+    }
+  }
+
+  private async prepareRequest(endpoint: string, options: RequestOptions): Promise<PreparedRequest> {
+    const { method = 'GET', headers = {}, body, query, timeout = this.defaultTimeout } = options;
+
+    const requestHeaders: Record<string, string> = {
+      'Content-Type': 'application/json',
+      'Accept': 'application/json',
+      ...headers,
+    };
+
+    if (options.idempotencyKey) {
+      requestHeaders['Idempotency-Key'] = options.idempotencyKey;
+    }
+
+    // Add authorization header if available
+    const token = await this.getAuthToken();
+    if (token) {
+      requestHeaders['Authorization'] = `Bearer ${token}`;
+    }
+
+    let request: PreparedRequest = {
+      url: this.buildUrl(endpoint, query),
+      method,
+      headers: requestHeaders,
+      body: body === undefined ? undefined : typeof body === 'string' ? body : JSON.stringify(body),
+      timeout,
+    };
+
+    for (const interceptor of this.requestInterceptors) {
+      request = await interceptor(request);
+    }
+
+    return request;
+  }
+
+  private async execute<T>(
+    request: PreparedRequest,
+    options: RequestOptions
+  ): Promise<{ response: ApiResponse<T>; retryAfter?: number }> {
+    const controller = new AbortController();
+    let timedOut = false;
+    const timeoutId = setTimeout(() => {
+      timedOut = true;
+      controller.abort();
+    }, request.timeout);
+    const onAbort = () => controller.abort();
+
+    if (options.signal?.aborted) {
+      clearTimeout(timeoutId);
+      return { response: this.failure({ kind: 'cancelled', message: 'Request cancelled' }) };
+    }
+    options.signal?.addEventListener('abort', onAbort);
 
-      const response = await fetch(url, {
-        method,
-        headers: requestHeaders,
-        body: body ? JSON.stringify(body) : undefined,
+    try {
+      const response = await fetch(request.url, {
+        method: request.method,
+        headers: request.headers,
+        body: request.body,
         signal: controller.signal,
       });
 
-      clearTimeout(timeoutId);
+      const text = await response.text();
+      const retryAfter = this.parseRetryAfter(response.headers.get('Retry-After'));
+      const contentType = response.headers.get('Content-Type') || '';
+      const responseType = options.responseType || 'auto';
 
-      const responseData = await response.json();
+      let data: any = null;
+      if (text) {
+        if (responseType === 'text' || (responseType === 'auto' && !contentType.includes('json'))) {
+          data = text;
+        } else {
+          try {
+            data = JSON.parse(text);
+          } catch {
+            if (response.ok) {
+              return {
+                response: this.failure({
+                  kind: 'parse',
+                  message: 'Response is not valid JSON',
+                  status: response.status,
+                  body: text,
+                }, response.status),
+              };
+            }
+            // Error pages are often HTML; keep the raw body for the error below
+            data = text;
+          }
+        }
+      }
 
       if (response.ok) {
-        return {
-          success: true,
-          data: responseData,
-          status: response.status,
-        };
-      } else {
-        return {
-          success: false,
-          error: responseData.message || `HTTP ${response.status}`,
-          status: response.status,
-        };
+        return { response: { success: true, data, status: response.status } };
       }
+
+      const message = (data && typeof data === 'object' && (data.message || data.error)) || `HTTP ${response.status}`;
+      const kind = response.status === 401 || response.status === 403 ? 'auth' : 'http';
+      return {
+        response: this.failure({ kind, message, status: response.status, body: data }, response.status),
+        retryAfter,
+      };
     } catch (error) {
-      if (error instanceof Error) {
-        if (error.name === 'AbortError') {
-          return {
-            success: false,
-            error: 'Request timeout',
-          };
-        }
-        return {
-          success: false,
-          error: error.message,
-        };
+      if (timedOut) {
+        return { response: this.failure({ kind: 'timeout', message: 'Request timeout', timeout: request.timeout }) };
+      }
+      if (options.signal?.aborted) {
+        return { response: this.failure({ kind: 'cancelled', message: 'Request cancelled' }) };
       }
       return {
-        success: false,
-        error: 'Unknown error occurred',
+        response: this.failure({
+          kind: 'network',
+          message: error instanceof Error ? error.message : 'Unknown error occurred',
+        }),
+      };
+    } finally {
+      clearTimeout(timeoutId);
+      options.signal?.removeEventListener('abort', onAbort);
+    }
+  }
+
+  private failure<T>(requestError: RequestError, status?: number): ApiResponse<T> {
+    return {
+      success: false,
+      error: requestError.message,
+      requestError,
+      status,
+    };
+  }
+
+  private async applyResponseInterceptors<T>(response: ApiResponse<T>, request: PreparedRequest): Promise<ApiResponse<T>> {
+    let result: ApiResponse = response;
+    for (const interceptor of this.responseInterceptors) {
+      result = await interceptor(result, request);
+    }
+    return result;
+  }
+
+  private resolveRetryPolicy(override: RequestOptions['retry']): RetryPolicy {
+    if (override === false) {
+      return { ...this.retryPolicy, retries: 0 };
+    }
+    return { ...this.retryPolicy, ...override };
+  }
+
+  private shouldRetry(response: ApiResponse, method: HttpMethod, idempotencyKey: string | undefined, policy: RetryPolicy): boolean {
+    // Repeating a non-idempotent request could apply it twice
+    if (!policy.methods.includes(method) && !idempotencyKey) {
+      return false;
+    }
+
+    const error = response.requestError;
+    switch (error?.kind) {
+      case 'network':
+      case 'timeout':
+        return policy.retryOnNetworkError;
+      case 'http':
+        return policy.statuses.includes(error.status);
+      default:
+        return false;
+    }
+  }
+
+  // Retry-After is either seconds or an HTTP date
+  private parseRetryAfter(value: string | null): number | undefined {
+    if (!value) {
+      return undefined;
+    }
+
+    const seconds = Number(value);
+    if (!isNaN(seconds)) {
+      return Math.max(0, seconds * 1000);
+    }
+
+    const date = Date.parse(value);
+    return isNaN(date) ? undefined : Math.max(0, date - Date.now());
+  }
+
+  // Resolves false when the signal aborts before the delay is over
+  private wait(delay: number, signal?: AbortSignal): Promise<boolean> {
+    return new Promise(resolve => {
+      if (signal?.aborted) {
+        resolve(false);
+        return;
+      }
+
+      const onAbort = () => {
+        clearTimeout(timer);
+        resolve(false);
       };
+      const timer = setTimeout(() => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve(true);
+      }, delay);
+      signal?.addEventListener('abort', onAbort);
+    });
+  }
+
+  // Endpoints are absolute http(s) URLs or paths under the base URL starting
+  // with '/'. Anything else (e.g. 'https:host' or 'host/path') throws
+  resolveUrl(endpoint: string): string {
+    if (/^https?:\/\//i.test(endpoint)) {
+      return new URL(endpoint).href;
+    }
+    if (endpoint.startsWith('/') && !endpoint.startsWith('//')) {
+      return new URL(`${this.baseUrl}${endpoint}`).href;
+    }
+    throw new Error(`Invalid request URL: ${endpoint}`);
+  }
+
+  private invalidUrl<T>(error: unknown): ApiResponse<T> {
+    return this.failure({ kind: 'invalid', message: error instanceof Error ? error.message : 'Invalid request URL' });
+  }
+
+  private buildUrl(endpoint: string, query?: RequestOptions['query']): string {
+    const url = this.resolveUrl(endpoint);
+    if (!query) {
+      return url;
+    }
+
+    const params: string[] = [];
+    Object.entries(query).forEach(([key, value]) => {
+      (Array.isArray(value) ? value : [value]).forEach(item => {
+        if (item !== null && item !== undefined) {
+          params.push(`${encodeURIComponent(key)}=${encodeURIComponent(String(item))}`);
+        }
+      });
+    });
+
+    if (params.length === 0) {
+      return url;
     }
+    return `${url}${url.includes('?') ? '&' : '?'}${params.join('&')}`;
+  }
+
+  addRequestInterceptor(interceptor: RequestInterceptor): () => void {
+    this.requestInterceptors.push(interceptor);
+    return () => {
+      this.requestInterceptors = this.requestInterceptors.filter(item => item !== interceptor);
+    };
+  }
+
+  addResponseInterceptor(interceptor: ResponseInterceptor): () => void {
+    this.responseInterceptors.push(interceptor);
+    return () => {
+      this.responseInterceptors = this.responseInterceptors.filter(item => item !== interceptor);
+    };
   }
 
   async get<T = any>(endpoint: string, options?: Omit<RequestOptions, 'method' | 'body'>): Promise<ApiResponse<T>> {
@@ -116,131 +524,488 @@ class RequestService {
     return this.request<T>(endpoint, { ...options, method: 'PATCH', body });
   }
 
-  // Upload file with progress tracking
+  // Upload file with progress tracking. Sent natively as multipart/form-data so
+  // large files never pass through the JS thread.
+  uploadFile(
+    endpoint: string,
+    fileUri: string,
+    fieldName: string | undefined,
+    additionalData: Record<string, any> | undefined,
+    onProgress: ((progress: UploadProgress) => void) | undefined,
+    options: UploadOptions & { resumable: true }
+  ): Promise<ApiResponse<ResumableUploadResult>>;
+  uploadFile<T = any>(
+    endpoint: string,
+    fileUri: string,
+    fieldName?: string,
+    additionalData?: Record<string, any>,
+    onProgress?: (progress: UploadProgress) => void,
+    options?: UploadOptions
+  ): Promise<ApiResponse<T>>;
   async uploadFile<T = any>(
     endpoint: string,
     fileUri: string,
     fieldName: string = 'file',
     additionalData?: Record<string, any>,
-    onProgress?: (progress: number) => void
+    onProgress?: (progress: UploadProgress) => void,
+    options: UploadOptions = {}
+  ): Promise<ApiResponse<T | ResumableUploadResult>> {
+    let url: string;
+    try {
+      url = this.resolveUrl(endpoint);
+    } catch (error) {
+      return this.invalidUrl(error);
+    }
+    const mimeType = options.mimeType || this.getMimeTypeFromUri(fileUri);
+
+    if (options.resumable) {
+      return this.uploadResumable(url, fileUri, mimeType, onProgress, options);
+    }
+
+    const headers = await this.getUploadHeaders(options);
+
+    return this.runUpload<T>(options, (report, signal) => {
+      const task = FileSystem.createUploadTask(
+        url,
+        fileUri,
+        {
+          uploadType: FileSystem.FileSystemUploadType.MULTIPART,
+          httpMethod: options.method || 'POST',
+          fieldName,
+          mimeType,
+          parameters: this.toFormParameters(additionalData),
+          headers,
+        },
+        ({ totalBytesSent, totalBytesExpectedToSend }) => report(totalBytesSent, totalBytesExpectedToSend)
+      );
+
+      const onAbort = () => {
+        task.cancelAsync();
+      };
+      signal.addEventListener('abort', onAbort);
+
+      return task.uploadAsync()
+        .then(response => response && {
+          status: response.status,
+          body: response.body,
+          retryAfter: this.getHeader(response.headers, 'Retry-After') ?? null,
+        })
+        .finally(() => signal.removeEventListener('abort', onAbort));
+    }, onProgress);
+  }
+
+  // Sends several files in one multipart request. The native upload task only
+  // takes a single file, so this goes through XMLHttpRequest and FormData.
+  async uploadFiles<T = any>(
+    endpoint: string,
+    files: UploadFileEntry[],
+    additionalData?: Record<string, any>,
+    onProgress?: (progress: UploadProgress) => void,
+    options: UploadOptions = {}
   ): Promise<ApiResponse<T>> {
+    let url: string;
     try {
-      const url = endpoint.startsWith('http') ? endpoint : `${this.baseUrl}${endpoint}`;
-      
-      const formData = new FormData();
-      formData.append(fieldName, {
-        uri: fileUri,
-        type: this.getMimeTypeFromUri(fileUri),
-        name: this.getFileNameFromUri(fileUri),
-      } as any);
-
-      // Add additional form data
-      if (additionalData) {
-        Object.entries(additionalData).forEach(([key, value]) => {
-          formData.append(key, String(value));
-        });
-      }
+      url = this.resolveUrl(endpoint);
+    } catch (error) {
+      return this.invalidUrl(error);
+    }
+    const headers = await this.getUploadHeaders(options);
 
-      const token = await this.getAuthToken();
-      const headers: Record<string, string> = {};
-      if (token) {
-        headers['Authorization'] = `Bearer ${token}`;
-      }
+    return this.runUpload<T>(options, (report, signal) => new Promise((resolve, reject) => {
+      const form = new FormData();
+      Object.entries(this.toFormParameters(additionalData)).forEach(([key, value]) => form.append(key, value));
+      files.forEach(file => {
+        // React Native's FormData streams { uri, name, type } parts from disk
+        form.append(file.fieldName || 'files', {
+          uri: file.uri,
+          name: file.name || file.uri.split('/').pop() || 'file',
+          type: file.mimeType || this.getMimeTypeFromUri(file.uri),
+        } as any);
+      });
 
-      const response = await fetch(url, {
-        method: 'POST',
-        headers,
-        body: formData,
+      const xhr = new XMLHttpRequest();
+      xhr.open(options.method || 'POST', url);
+      Object.entries(headers).forEach(([key, value]) => xhr.setRequestHeader(key, value));
+
+      xhr.upload.onprogress = event => report(event.loaded, event.lengthComputable ? event.total : 0);
+      xhr.onload = () => resolve({
+        status: xhr.status,
+        body: xhr.responseText,
+        retryAfter: xhr.getResponseHeader('Retry-After'),
       });
+      xhr.onerror = () => reject(new Error('Network request failed'));
+      xhr.onabort = () => resolve(null);
 
-      const responseData = await response.json();
+      const onAbort = () => xhr.abort();
+      signal.addEventListener('abort', onAbort);
+      xhr.onloadend = () => signal.removeEventListener('abort', onAbort);
 
-      if (response.ok) {
-        return {
-          success: true,
-          data: responseData,
-          status: response.status,
-        };
-      } else {
-        return {
-          success: false,
-          error: responseData.message || `HTTP ${response.status}`,
-          status: response.status,
-        };
+      xhr.send(form);
+    }), onProgress);
+  }
+
+  private async uploadResumable(
+    url: string,
+    fileUri: string,
+    mimeType: string,
+    onProgress: ((progress: UploadProgress) => void) | undefined,
+    options: UploadOptions
+  ): Promise<ApiResponse<ResumableUploadResult>> {
+    try {
+      const queued = await uploadManagerService.enqueue(fileUri, url, {
+        headers: options.headers,
+        metadata: options.metadata,
+        mimeType,
+      });
+
+      const unsubscribe = onProgress && uploadManagerService.subscribe(upload => {
+        if (upload.id === queued.id) {
+          onProgress({
+            totalBytesSent: upload.bytesSent,
+            totalBytesExpectedToSend: upload.totalBytes,
+            progress: upload.progress,
+          });
+        }
+      });
+      const onAbort = () => {
+        uploadManagerService.cancel(queued.id);
+      };
+      options.signal?.addEventListener('abort', onAbort);
+
+      try {
+        const upload = await uploadManagerService.waitForCompletion(queued.id);
+        if (upload?.status === 'completed') {
+          return { success: true, data: { uploadId: upload.id, uploadUrl: upload.uploadUrl }, status: upload.httpStatus };
+        }
+        return this.failure(
+          upload?.status === 'cancelled' || !upload
+            ? { kind: 'cancelled', message: 'Upload cancelled' }
+            : upload.httpStatus
+              ? { kind: 'http', message: upload.error || `HTTP ${upload.httpStatus}`, status: upload.httpStatus }
+              : { kind: 'network', message: upload.error || 'Upload failed' },
+          upload?.httpStatus
+        );
+      } finally {
+        unsubscribe?.();
+        options.signal?.removeEventListener('abort', onAbort);
       }
     } catch (error) {
-      return {
-        success: false,
-        error: error instanceof Error ? error.message : 'Unknown error occurred',
+      return this.failure({ kind: 'network', message: error instanceof Error ? error.message : 'Unknown error occurred' });
+    }
+  }
+
+  // Runs one upload attempt at a time under the retry policy. Each attempt gets
+  // its own abort signal, fired by the caller's signal or by the stall timeout.
+  private async runUpload<T>(
+    options: UploadOptions,
+    attempt: (
+      report: (sent: number, expected: number) => void,
+      signal: AbortSignal
+    ) => Promise<{ status: number; body: string; retryAfter: string | null } | null | undefined>,
+    onProgress?: (progress: UploadProgress) => void
+  ): Promise<ApiResponse<T>> {
+    const method = options.method || 'POST';
+    const timeout = options.timeout ?? this.defaultTimeout;
+    const policy = this.resolveRetryPolicy(options.retry);
+
+    for (let attemptNumber = 0; ; attemptNumber++) {
+      if (options.signal?.aborted) {
+        return this.failure({ kind: 'cancelled', message: 'Upload cancelled' });
+      }
+
+      const controller = new AbortController();
+      let timedOut = false;
+      let stallTimer: ReturnType<typeof setTimeout> | undefined;
+      const resetStallTimer = () => {
+        clearTimeout(stallTimer);
+        stallTimer = setTimeout(() => {
+          timedOut = true;
+          controller.abort();
+        }, timeout);
       };
+      const onAbort = () => controller.abort();
+      options.signal?.addEventListener('abort', onAbort);
+      resetStallTimer();
+
+      let result: ApiResponse<T>;
+      let retryAfter: number | undefined;
+      try {
+        const response = await attempt((sent, expected) => {
+          resetStallTimer();
+          onProgress?.({
+            totalBytesSent: sent,
+            totalBytesExpectedToSend: expected,
+            progress: expected > 0 ? sent / expected : 0,
+          });
+        }, controller.signal);
+
+        if (!response) {
+          // The attempt resolves empty once it has been aborted
+          result = timedOut
+            ? this.failure({ kind: 'timeout', message: 'Upload stalled', timeout })
+            : this.failure({ kind: 'cancelled', message: 'Upload cancelled' });
+        } else {
+          const data = this.parseResponseBody(response.body);
+          retryAfter = this.parseRetryAfter(response.retryAfter);
+
+          if (response.status >= 200 && response.status < 300) {
+            result = { success: true, data, status: response.status };
+          } else {
+            const message = (data && typeof data === 'object' && (data.message || data.error)) || `HTTP ${response.status}`;
+            const kind = response.status === 401 || response.status === 403 ? 'auth' : 'http';
+            result = this.failure({ kind, message, status: response.status, body: data }, response.status);
+          }
+        }
+      } catch (error) {
+        result = timedOut
+          ? this.failure({ kind: 'timeout', message: 'Upload stalled', timeout })
+          : this.failure({ kind: 'network', message: error instanceof Error ? error.message : 'Unknown error occurred' });
+      } finally {
+        clearTimeout(stallTimer);
+        options.signal?.removeEventListener('abort', onAbort);
+      }
+
+      if (result.success || attemptNumber >= policy.retries || !this.shouldRetry(result, method, options.idempotencyKey, policy)) {
+        return result;
+      }
+      if (retryAfter !== undefined && retryAfter > policy.maxDelay) {
+        return result;
+      }
+
+      const delay = retryAfter ?? Math.min(policy.baseDelay * 2 ** attemptNumber, policy.maxDelay);
+      console.log(`Retrying upload in ${delay}ms (attempt ${attemptNumber + 2})`);
+      if (!(await this.wait(delay, options.signal))) {
+        return this.failure({ kind: 'cancelled', message: 'Upload cancelled' });
+      }
     }
   }
 
-  // Download file with progress tracking
+  private async getUploadHeaders(options: UploadOptions): Promise<Record<string, string>> {
+    const headers: Record<string, string> = {
+      'Accept': 'application/json',
+      ...options.headers,
+    };
+    if (options.idempotencyKey) {
+      headers['Idempotency-Key'] = options.idempotencyKey;
+    }
+    const token = await this.getAuthToken();
+    if (token && !headers['Authorization']) {
+      headers['Authorization'] = `Bearer ${token}`;
+    }
+    return headers;
+  }
+
+  private toFormParameters(additionalData?: Record<string, any>): Record<string, string> {
+    const parameters: Record<string, string> = {};
+    if (additionalData) {
+      Object.entries(additionalData).forEach(([key, value]) => {
+        parameters[key] = typeof value === 'string' ? value : JSON.stringify(value);
+      });
+    }
+    return parameters;
+  }
+
+  // Streams the response to a temporary file, verifies it and then moves it
+  // into place, so a partial or corrupt download never looks finished
   async downloadFile(
     endpoint: string,
-    onProgress?: (progress: number) => void
-  ): Promise<ApiResponse<{ uri: string; fileName: string }>> {
+    onProgress?: (progress: number) => void,
+    options: DownloadOptions = {}
+  ): Promise<ApiResponse<DownloadedFile>> {
+    let url: string;
+    try {
+      url = this.resolveUrl(endpoint);
+    } catch (error) {
+      return this.invalidUrl(error);
+    }
+    const tempUri = `${FileSystem.cacheDirectory}download_${Date.now()}_${Math.random().toString(36).substr(2, 9)}.part`;
+    const timeout = options.timeout ?? this.defaultTimeout;
+
+    let timedOut = false;
+    let stallTimer: ReturnType<typeof setTimeout> | undefined;
+    let resumable: FileSystem.DownloadResumable | undefined;
+    const resetStallTimer = () => {
+      clearTimeout(stallTimer);
+      stallTimer = setTimeout(() => {
+        timedOut = true;
+        resumable?.cancelAsync();
+      }, timeout);
+    };
+    const onAbort = () => {
+      resumable?.cancelAsync();
+    };
+
     try {
-      const url = endpoint.startsWith('http') ? endpoint : `${this.baseUrl}${endpoint}`;
-      
+      if (options.signal?.aborted) {
+        return this.failure({ kind: 'cancelled', message: 'Download cancelled' });
+      }
+
+      const headers: Record<string, string> = { ...options.headers };
       const token = await this.getAuthToken();
-      const headers: Record<string, string> = {};
-      if (token) {
+      if (token && !headers['Authorization']) {
         headers['Authorization'] = `Bearer ${token}`;
       }
 
-      const response = await fetch(url, {
-        method: 'GET',
-        headers,
-      });
+      resumable = FileSystem.createDownloadResumable(
+        url,
+        tempUri,
+        { headers, md5: true },
+        ({ totalBytesWritten, totalBytesExpectedToWrite }) => {
+          resetStallTimer();
+          if (onProgress && totalBytesExpectedToWrite > 0) {
+            onProgress(totalBytesWritten / totalBytesExpectedToWrite);
+          }
+        }
+      );
+      options.signal?.addEventListener('abort', onAbort);
+      resetStallTimer();
 
-      if (!response.ok) {
-        return {
-          success: false,
-          error: `HTTP ${response.status}`,
-          status: response.status,
-        };
+      const result = await resumable.downloadAsync();
+      if (!result) {
+        return timedOut
+          ? this.failure({ kind: 'timeout', message: 'Download stalled', timeout })
+          : this.failure({ kind: 'cancelled', message: 'Download cancelled' });
       }
 
-      // Get filename from Content-Disposition header or URL
-      const contentDisposition = response.headers.get('Content-Disposition');
-      let fileName = 'download';
-      
-      if (contentDisposition) {
-        const fileNameMatch = contentDisposition.match(/filename="?([^"]+)"?/);
-        if (fileNameMatch) {
-          fileName = fileNameMatch[1];
-        }
-      } else {
-        fileName = this.getFileNameFromUri(url);
+      const header = (name: string) => this.getHeader(result.headers, name);
+
+      if (result.status < 200 || result.status >= 300) {
+        const body = this.parseResponseBody(await FileSystem.readAsStringAsync(result.uri).catch(() => ''));
+        const message = (body && typeof body === 'object' && (body.message || body.error)) || `HTTP ${result.status}`;
+        const kind = result.status === 401 || result.status === 403 ? 'auth' : 'http';
+        return this.failure({ kind, message, status: result.status, body }, result.status);
+      }
+
+      const info = await FileSystem.getInfoAsync(result.uri);
+      const size = info.exists ? info.size : 0;
+
+      const contentLength = Number(header('Content-Length'));
+      // A compressed transfer reports the encoded length, not the saved size
+      if (header('Content-Length') && !header('Content-Encoding') && contentLength !== size) {
+        return this.failure({
+          kind: 'integrity',
+          message: `Incomplete download: expected ${contentLength} bytes, got ${size}`,
+          status: result.status,
+        }, result.status);
+      }
+
+      const expectedMd5 = options.md5?.toLowerCase() || this.base64ToHex(header('Content-MD5'));
+      if (expectedMd5 && result.md5 && expectedMd5 !== result.md5.toLowerCase()) {
+        return this.failure({ kind: 'integrity', message: 'Checksum mismatch', status: result.status }, result.status);
       }
 
-      // For now, we'll return the URL as the URI
-      // In a real implementation, you might want to save the file locally
+      const fileName = this.sanitizeFileName(
+        options.fileName
+        || this.getFileNameFromContentDisposition(header('Content-Disposition'))
+        || this.getFileNameFromUri(url)
+      );
+      const directory = options.directory || fileDownloadService.getDownloadsDirectory();
+      await FileSystem.makeDirectoryAsync(directory, { intermediates: true });
+      const uri = await this.getAvailableUri(directory, fileName);
+      await FileSystem.moveAsync({ from: result.uri, to: uri });
+
       return {
         success: true,
         data: {
-          uri: url,
-          fileName,
+          uri,
+          fileName: uri.split('/').pop() || fileName,
+          mimeType: header('Content-Type')?.split(';')[0].trim() || this.getMimeTypeFromUri(fileName),
+          size,
+          md5: result.md5,
         },
-        status: response.status,
+        status: result.status,
       };
     } catch (error) {
-      return {
-        success: false,
-        error: error instanceof Error ? error.message : 'Unknown error occurred',
-      };
+      if (timedOut) {
+        return this.failure({ kind: 'timeout', message: 'Download stalled', timeout });
+      }
+      if (options.signal?.aborted) {
+        return this.failure({ kind: 'cancelled', message: 'Download cancelled' });
+      }
+      return this.failure({
+        kind: 'network',
+        message: error instanceof Error ? error.message : 'Unknown error occurred',
+      });
+    } finally {
+      clearTimeout(stallTimer);
+      options.signal?.removeEventListener('abort', onAbort);
+      await FileSystem.deleteAsync(tempUri, { idempotent: true }).catch(() => undefined);
+    }
+  }
+
+  // Prefers the RFC 5987 filename* form, which carries non-ASCII names
+  private getFileNameFromContentDisposition(value?: string): string | null {
+    if (!value) {
+      return null;
+    }
+
+    const extended = value.match(/filename\*\s*=\s*(?:[\w-]+)?'[^']*'([^;]+)/i);
+    if (extended) {
+      try {
+        return decodeURIComponent(extended[1].trim().replace(/^"|"$/g, ''));
+      } catch {
+        // Fall through to the plain filename
+      }
+    }
+
+    const plain = value.match(/filename\s*=\s*"?([^";]+)"?/i);
+    return plain ? plain[1].trim() : null;
+  }
+
+  // Keep downloads inside the target directory
+  private sanitizeFileName(fileName: string): string {
+    return fileName.replace(/[/\\]/g, '_').replace(/^\.+/, '') || `download_${Date.now()}`;
+  }
+
+  private async getAvailableUri(directory: string, fileName: string): Promise<string> {
+    const dot = fileName.lastIndexOf('.');
+    const base = dot > 0 ? fileName.slice(0, dot) : fileName;
+    const extension = dot > 0 ? fileName.slice(dot) : '';
+
+    for (let attempt = 0; ; attempt++) {
+      const uri = `${directory}${attempt === 0 ? fileName : `${base} (${attempt})${extension}`}`;
+      if (!(await FileSystem.getInfoAsync(uri)).exists) {
+        return uri;
+      }
+    }
+  }
+
+  // Native responses do not agree on header casing
+  private getHeader(headers: Record<string, string>, name: string): string | undefined {
+    const key = Object.keys(headers).find(header => header.toLowerCase() === name.toLowerCase());
+    return key ? headers[key] : undefined;
+  }
+
+  // Content-MD5 is base64; expo reports MD5 as hex
+  private base64ToHex(value?: string): string | undefined {
+    if (!value) {
+      return undefined;
+    }
+    try {
+      return Array.from(atob(value), char => char.charCodeAt(0).toString(16).padStart(2, '0')).join('');
+    } catch {
+      return undefined;
     }
   }
 
   private async getAuthToken(): Promise<string | null> {
-    // In a real implementation, you would retrieve the auth token from secure storage
-    // For now, we'll return null
-    return null;
+    return authSessionService.getAccessToken();
+  }
+
+  // Upload endpoints do not always answer with JSON; fall back to the raw text
+  private parseResponseBody(body: string): any {
+    if (!body) {
+      return null;
+    }
+
+    try {
+      return JSON.parse(body);
+    } catch {
+      return body;
+    }
   }
 
-  private getMimeTypeFromUri(uri: string): string {
+  getMimeTypeFromUri(uri: string): string {
     const extension = uri.split('.').pop()?.toLowerCase();
     
     const mimeTypes: Record<string, string> = {
@@ -249,9 +1014,13 @@ class RequestService {
       'jpeg': 'image/jpeg',
       'png': 'image/png',
       'gif': 'image/gif',
+      'webp': 'image/webp',
+      'heic': 'image/heic',
       'mp4': 'video/mp4',
+      'mov': 'video/quicktime',
       'mp3': 'audio/mpeg',
       'wav': 'audio/wav',
+      'm4a': 'audio/mp4',
       'txt': 'text/plain',
       'doc': 'application/msword',
       'docx': 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
@@ -265,7 +1034,7 @@ class RequestService {
       const url = new URL(uri);
       const pathname = url.pathname;
       return pathname.split('/').pop() || 'download';
-    } catch (error) {
+    } catch {
       return 'download';
     }
   }
@@ -277,6 +1046,10 @@ class RequestService {
   setDefaultTimeout(timeout: number): void {
     this.defaultTimeout = timeout;
   }
+
+  setRetryPolicy(policy: Partial<RetryPolicy>): void {
+    this.retryPolicy = { ...this.retryPolicy, ...policy };
+  }
 }
 
 export const requestService = new RequestService();
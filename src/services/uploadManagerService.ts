@@ -0,0 +1,570 @@
+import * as FileSystem from 'expo-file-system';
+import { env } from '../env';
+import { authSessionService } from './authSessionService';
+import { networkService } from './networkService';
+
+export type UploadStatus = 'queued' | 'uploading' | 'paused' | 'completed' | 'failed' | 'cancelled';
+
+export interface UploadInfo {
+  id: string;
+  uri: string;
+  fileName: string;
+  // tus creation endpoint
+  endpoint: string;
+  // Upload resource returned by the server; set once the upload is created
+  uploadUrl?: string;
+  status: UploadStatus;
+  bytesSent: number;
+  totalBytes: number;
+  // 0 to 1
+  progress: number;
+  mimeType?: string;
+  // HTTP status of the last request
+  httpStatus?: number;
+  error?: string;
+  createdAt: number;
+  updatedAt: number;
+}
+
+interface UploadTask extends UploadInfo {
+  // Never includes Authorization; see authorize
+  headers?: Record<string, string>;
+  authorize?: boolean;
+  metadata?: Record<string, string>;
+  chunkSize: number;
+  // Failures in a row without progress; reset after every accepted chunk
+  attempts: number;
+  // Epoch ms; a queued task backing off after a failure waits until then
+  retryAt?: number;
+}
+
+export interface EnqueueUploadOptions {
+  headers?: Record<string, string>;
+  // Sent as tus Upload-Metadata; filename and contentType are filled in when missing
+  metadata?: Record<string, string>;
+  mimeType?: string;
+  chunkSize?: number;
+}
+
+export interface UploadActionResult {
+  success: boolean;
+  upload?: UploadInfo;
+  error?: string;
+}
+
+type UploadListener = (upload: UploadInfo) => void;
+
+// Thrown for answers that retrying the same request will not change
+class PermanentUploadError extends Error {
+  constructor(message: string, public status?: number) {
+    super(message);
+  }
+}
+
+const QUEUE_FILE = `${FileSystem.documentDirectory}upload-queue.json`;
+const CHUNK_DIR = `${FileSystem.cacheDirectory}uploads/`;
+const TUS_VERSION = '1.0.0';
+// Supabase Storage only accepts 6MB chunks
+const DEFAULT_CHUNK_SIZE = 6 * 1024 * 1024;
+const MAX_ATTEMPTS = 10;
+const BASE_BACKOFF = 1000;
+const MAX_BACKOFF = 5 * 60 * 1000;
+const PROGRESS_INTERVAL = 250;
+const FINISHED_STATUSES: UploadStatus[] = ['completed', 'failed', 'cancelled'];
+
+// Resumable uploads over the tus protocol. The file is sent in chunks and the
+// confirmed offset is persisted, so an upload continues after losing the
+// network or restarting the app instead of starting over.
+class UploadManagerService {
+  private tasks = new Map<string, UploadTask>();
+  // Uploads run one at a time; this is the chunk request currently transferring
+  private active: { id: string; task: FileSystem.UploadTask } | null = null;
+  private activeId: string | null = null;
+  private listeners = new Set<UploadListener>();
+  private lastProgressAt = new Map<string, number>();
+  private retryTimer: ReturnType<typeof setTimeout> | null = null;
+  private persisting: Promise<void> = Promise.resolve();
+  private ready: Promise<void>;
+
+  constructor() {
+    this.ready = this.restoreQueue();
+    networkService.subscribe(isOnline => {
+      if (isOnline) {
+        this.processQueue();
+      }
+    });
+  }
+
+  private async restoreQueue(): Promise<void> {
+    try {
+      const info = await FileSystem.getInfoAsync(QUEUE_FILE);
+      if (info.exists) {
+        const saved: UploadTask[] = JSON.parse(await FileSystem.readAsStringAsync(QUEUE_FILE));
+        saved.forEach(task => {
+          // The app closed mid-transfer; the server knows how far it got
+          if (task.status === 'uploading') {
+            task.status = 'queued';
+          }
+          // Older versions saved the caller's Authorization header
+          const { headers, authorize } = authSessionService.stripAuthorization(task.headers);
+          this.tasks.set(task.id, { ...task, headers, authorize: task.authorize || authorize });
+        });
+      }
+    } catch (error) {
+      console.error('Error restoring upload queue:', error);
+    }
+
+    this.processQueue();
+  }
+
+  private persistQueue(): void {
+    const snapshot = JSON.stringify([...this.tasks.values()]);
+    this.persisting = this.persisting
+      .then(() => FileSystem.writeAsStringAsync(QUEUE_FILE, snapshot))
+      .catch(error => console.error('Error saving upload queue:', error));
+  }
+
+  subscribe(listener: UploadListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private notify(task: UploadTask): void {
+    const info = this.toInfo(task);
+    this.listeners.forEach(listener => {
+      try {
+        listener(info);
+      } catch (error) {
+        console.error('Upload listener failed:', error);
+      }
+    });
+  }
+
+  private update(task: UploadTask, changes: Partial<UploadTask>): void {
+    Object.assign(task, changes, { updatedAt: Date.now() });
+    this.notify(task);
+    this.persistQueue();
+  }
+
+  async enqueue(uri: string, endpoint: string, options: EnqueueUploadOptions = {}): Promise<UploadInfo> {
+    await this.ready;
+
+    const info = await FileSystem.getInfoAsync(uri);
+    if (!info.exists || info.isDirectory) {
+      throw new Error('File not found');
+    }
+
+    const fileName = decodeURIComponent(uri.split('/').pop() || 'upload');
+    const { headers, authorize } = authSessionService.stripAuthorization(options.headers);
+    const now = Date.now();
+    const task: UploadTask = {
+      id: `ul_${now}_${Math.random().toString(36).substr(2, 9)}`,
+      uri,
+      fileName,
+      endpoint,
+      status: 'queued',
+      bytesSent: 0,
+      totalBytes: info.size,
+      progress: 0,
+      mimeType: options.mimeType,
+      headers,
+      authorize,
+      metadata: {
+        filename: fileName,
+        ...(options.mimeType ? { contentType: options.mimeType } : {}),
+        ...options.metadata,
+      },
+      chunkSize: options.chunkSize || DEFAULT_CHUNK_SIZE,
+      attempts: 0,
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    this.tasks.set(task.id, task);
+    this.notify(task);
+    this.persistQueue();
+    this.processQueue();
+
+    return this.toInfo(task);
+  }
+
+  // Resolves once the upload completes, fails or is cancelled
+  waitForCompletion(id: string): Promise<UploadInfo | undefined> {
+    const task = this.tasks.get(id);
+    if (!task || FINISHED_STATUSES.includes(task.status)) {
+      return Promise.resolve(task && this.toInfo(task));
+    }
+
+    return new Promise(resolve => {
+      const unsubscribe = this.subscribe(upload => {
+        if (upload.id === id && FINISHED_STATUSES.includes(upload.status)) {
+          unsubscribe();
+          resolve(upload);
+        }
+      });
+    });
+  }
+
+  async pause(id: string): Promise<UploadActionResult> {
+    await this.ready;
+    const task = this.tasks.get(id);
+    if (!task) {
+      return { success: false, error: 'Upload not found' };
+    }
+
+    if (task.status !== 'queued' && task.status !== 'uploading') {
+      return { success: false, upload: this.toInfo(task), error: `Cannot pause a ${task.status} upload` };
+    }
+
+    // The chunk in flight is dropped; the server keeps everything before it
+    this.update(task, { status: 'paused' });
+    await this.stopActive(id);
+    this.processQueue();
+
+    return { success: true, upload: this.toInfo(task) };
+  }
+
+  async resume(id: string): Promise<UploadActionResult> {
+    await this.ready;
+    const task = this.tasks.get(id);
+    if (!task) {
+      return { success: false, error: 'Upload not found' };
+    }
+
+    if (task.status !== 'paused' && task.status !== 'failed') {
+      return { success: false, upload: this.toInfo(task), error: `Cannot resume a ${task.status} upload` };
+    }
+
+    this.update(task, { status: 'queued', attempts: 0, error: undefined, retryAt: undefined });
+    this.processQueue();
+
+    return { success: true, upload: this.toInfo(task) };
+  }
+
+  async cancel(id: string): Promise<UploadActionResult> {
+    await this.ready;
+    const task = this.tasks.get(id);
+    if (!task) {
+      return { success: false, error: 'Upload not found' };
+    }
+
+    if (FINISHED_STATUSES.includes(task.status)) {
+      return { success: false, upload: this.toInfo(task), error: `Cannot cancel a ${task.status} upload` };
+    }
+
+    this.update(task, { status: 'cancelled' });
+    await this.stopActive(id);
+    this.terminate(task);
+    this.processQueue();
+
+    return { success: true, upload: this.toInfo(task) };
+  }
+
+  // Forgets a finished upload
+  async remove(id: string): Promise<UploadActionResult> {
+    await this.ready;
+    const task = this.tasks.get(id);
+    if (!task) {
+      return { success: false, error: 'Upload not found' };
+    }
+
+    if (!FINISHED_STATUSES.includes(task.status)) {
+      await this.cancel(id);
+    }
+
+    this.tasks.delete(id);
+    this.lastProgressAt.delete(id);
+    this.persistQueue();
+
+    return { success: true, upload: this.toInfo(task) };
+  }
+
+  // Stops every upload and forgets the whole queue
+  async clear(): Promise<void> {
+    await this.ready;
+    this.tasks.forEach(task => {
+      if (!FINISHED_STATUSES.includes(task.status)) {
+        this.update(task, { status: 'cancelled' });
+      }
+    });
+    await this.stopActive();
+
+    this.tasks.clear();
+    this.lastProgressAt.clear();
+    this.persistQueue();
+  }
+
+  async getUploads(): Promise<UploadInfo[]> {
+    await this.ready;
+    return [...this.tasks.values()]
+      .sort((a, b) => a.createdAt - b.createdAt)
+      .map(task => this.toInfo(task));
+  }
+
+  getUpload(id: string): UploadInfo | undefined {
+    const task = this.tasks.get(id);
+    return task && this.toInfo(task);
+  }
+
+  private async stopActive(id?: string): Promise<void> {
+    if (!this.active || (id && this.active.id !== id)) {
+      return;
+    }
+    const { task } = this.active;
+    this.active = null;
+    await task.cancelAsync().catch(() => undefined);
+  }
+
+  private processQueue(): void {
+    if (this.activeId || !networkService.isOnline()) {
+      return;
+    }
+
+    const now = Date.now();
+    const queued = [...this.tasks.values()]
+      .filter(task => task.status === 'queued')
+      .sort((a, b) => a.createdAt - b.createdAt);
+    const next = queued.find(task => !task.retryAt || task.retryAt <= now);
+
+    if (next) {
+      this.startUpload(next);
+      return;
+    }
+
+    // Tasks still backing off are started by the timer, also after a restart
+    if (queued.length > 0) {
+      this.scheduleRetry(Math.min(...queued.map(task => task.retryAt!)) - now);
+    }
+  }
+
+  private async startUpload(task: UploadTask): Promise<void> {
+    this.activeId = task.id;
+    this.update(task, { status: 'uploading', error: undefined, retryAt: undefined });
+
+    try {
+      let offset = task.uploadUrl ? await this.fetchOffset(task) : null;
+      if (offset === null) {
+        offset = 0;
+        this.update(task, { uploadUrl: await this.createUpload(task), bytesSent: 0, progress: 0 });
+      }
+
+      while (offset < task.totalBytes) {
+        if (task.status !== 'uploading') {
+          return;
+        }
+        offset = await this.sendChunk(task, offset);
+        this.update(task, {
+          bytesSent: offset,
+          progress: task.totalBytes > 0 ? offset / task.totalBytes : 1,
+          attempts: 0,
+        });
+      }
+
+      if (task.status === 'uploading') {
+        this.update(task, { status: 'completed', bytesSent: task.totalBytes, progress: 1 });
+      }
+    } catch (error) {
+      if (task.status !== 'uploading') {
+        return;
+      }
+
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      if (error instanceof PermanentUploadError || task.attempts + 1 >= MAX_ATTEMPTS) {
+        this.update(task, {
+          status: 'failed',
+          error: message,
+          httpStatus: error instanceof PermanentUploadError ? error.status : task.httpStatus,
+        });
+        return;
+      }
+
+      // Back off, and wait for the connection if it dropped
+      const backoff = Math.min(BASE_BACKOFF * 2 ** task.attempts, MAX_BACKOFF);
+      this.update(task, { status: 'queued', error: message, attempts: task.attempts + 1, retryAt: Date.now() + backoff });
+    } finally {
+      await FileSystem.deleteAsync(this.getChunkUri(task), { idempotent: true }).catch(() => undefined);
+      this.activeId = null;
+      this.processQueue();
+    }
+  }
+
+  private scheduleRetry(delay: number): void {
+    if (this.retryTimer) {
+      clearTimeout(this.retryTimer);
+    }
+    this.retryTimer = setTimeout(() => {
+      this.retryTimer = null;
+      this.processQueue();
+    }, delay);
+  }
+
+  private async createUpload(task: UploadTask): Promise<string> {
+    const response = await fetch(task.endpoint, {
+      method: 'POST',
+      headers: {
+        ...(await this.getHeaders(task)),
+        'Upload-Length': String(task.totalBytes),
+        'Upload-Metadata': this.encodeMetadata(task.metadata),
+      },
+    });
+
+    this.checkStatus(task, response.status);
+    const location = response.headers.get('Location');
+    if (!location) {
+      throw new PermanentUploadError('Server did not return an upload location', response.status);
+    }
+    return new URL(location, task.endpoint).toString();
+  }
+
+  // Where the server says the upload stands; null when it no longer knows it
+  private async fetchOffset(task: UploadTask): Promise<number | null> {
+    const response = await fetch(task.uploadUrl!, {
+      method: 'HEAD',
+      headers: await this.getHeaders(task),
+    });
+
+    if (response.status === 404 || response.status === 410) {
+      return null;
+    }
+    this.checkStatus(task, response.status);
+
+    const offset = Number(response.headers.get('Upload-Offset'));
+    return isNaN(offset) ? null : offset;
+  }
+
+  private async sendChunk(task: UploadTask, offset: number): Promise<number> {
+    const length = Math.min(task.chunkSize, task.totalBytes - offset);
+    const chunkUri = this.getChunkUri(task);
+
+    // The native upload task sends a whole file, so stage the chunk as its own file
+    const chunk = await FileSystem.readAsStringAsync(task.uri, {
+      encoding: FileSystem.EncodingType.Base64,
+      position: offset,
+      length,
+    });
+    await FileSystem.makeDirectoryAsync(CHUNK_DIR, { intermediates: true });
+    await FileSystem.writeAsStringAsync(chunkUri, chunk, { encoding: FileSystem.EncodingType.Base64 });
+
+    const uploadTask = FileSystem.createUploadTask(
+      task.uploadUrl!,
+      chunkUri,
+      {
+        httpMethod: 'PATCH',
+        uploadType: FileSystem.FileSystemUploadType.BINARY_CONTENT,
+        headers: {
+          ...(await this.getHeaders(task)),
+          'Upload-Offset': String(offset),
+          'Content-Type': 'application/offset+octet-stream',
+        },
+      },
+      ({ totalBytesSent }) => this.handleProgress(task, offset + totalBytesSent)
+    );
+    this.active = { id: task.id, task: uploadTask };
+
+    let response: FileSystem.FileSystemUploadResult | null | undefined;
+    try {
+      response = await uploadTask.uploadAsync();
+    } finally {
+      if (this.active?.task === uploadTask) {
+        this.active = null;
+      }
+    }
+
+    if (!response) {
+      throw new Error('Upload interrupted');
+    }
+
+    // Our offset was stale; ask the server and carry on from there
+    if (response.status === 409) {
+      const serverOffset = await this.fetchOffset(task);
+      if (serverOffset === null) {
+        throw new PermanentUploadError('Upload no longer exists on the server', response.status);
+      }
+      return serverOffset;
+    }
+
+    this.checkStatus(task, response.status);
+    const next = Number(this.getHeader(response.headers, 'Upload-Offset'));
+    return isNaN(next) ? offset + length : next;
+  }
+
+  // Best effort; the server expires abandoned uploads on its own
+  private async terminate(task: UploadTask): Promise<void> {
+    if (!task.uploadUrl) {
+      return;
+    }
+    try {
+      await fetch(task.uploadUrl, { method: 'DELETE', headers: await this.getHeaders(task) });
+    } catch (error) {
+      console.warn('Could not delete cancelled upload:', error);
+    }
+  }
+
+  private checkStatus(task: UploadTask, status: number): void {
+    task.httpStatus = status;
+    if (status >= 200 && status < 300) {
+      return;
+    }
+
+    const message = `Upload failed with status: ${status}`;
+    if (status === 408 || status === 423 || status === 429 || status >= 500) {
+      throw new Error(message);
+    }
+    throw new PermanentUploadError(message, status);
+  }
+
+  // Built per request so a long upload picks up refreshed tokens
+  private async getHeaders(task: UploadTask): Promise<Record<string, string>> {
+    const headers: Record<string, string> = {
+      'Tus-Resumable': TUS_VERSION,
+      'apikey': env.SUPABASE_ANON_KEY,
+      ...task.headers,
+    };
+    // The caller's Authorization is not kept; the session's replaces it
+    if (task.authorize) {
+      return { ...headers, ...(await authSessionService.getAuthHeaders()) };
+    }
+    const token = await authSessionService.getAccessToken();
+    if (token) {
+      headers['Authorization'] = `Bearer ${token}`;
+    }
+    return headers;
+  }
+
+  private handleProgress(task: UploadTask, bytesSent: number): void {
+    task.bytesSent = bytesSent;
+    task.progress = task.totalBytes > 0 ? bytesSent / task.totalBytes : 0;
+
+    const now = Date.now();
+    if (now - (this.lastProgressAt.get(task.id) || 0) >= PROGRESS_INTERVAL) {
+      this.lastProgressAt.set(task.id, now);
+      task.updatedAt = now;
+      this.notify(task);
+    }
+  }
+
+  // tus metadata is comma-separated "key base64(value)" pairs
+  private encodeMetadata(metadata: Record<string, string> = {}): string {
+    return Object.entries(metadata)
+      .map(([key, value]) => `${key} ${btoa(String.fromCharCode(...new TextEncoder().encode(value)))}`)
+      .join(',');
+  }
+
+  private getHeader(headers: Record<string, string>, name: string): string | undefined {
+    const key = Object.keys(headers).find(header => header.toLowerCase() === name.toLowerCase());
+    return key ? headers[key] : undefined;
+  }
+
+  private getChunkUri(task: UploadTask): string {
+    return `${CHUNK_DIR}${task.id}.part`;
+  }
+
+  private toInfo(task: UploadTask): UploadInfo {
+    const { headers, authorize, metadata, chunkSize, attempts, retryAt, ...info } = task;
+    return { ...info };
+  }
+}
+
+export const uploadManagerService = new UploadManagerService();
@@ -0,0 +1,188 @@
+// Expo Push API client shared by send-notification and check-push-receipts.
+// Set EXPO_PUSH_API_URL to test against a stand-in such as scripts/mock-expo-push.js
+const EXPO_PUSH_API_URL = (Deno.env.get('EXPO_PUSH_API_URL') || 'https://exp.host/--/api/v2/push').replace(/\/+$/, '')
+
+// The Expo Push API takes at most 100 messages per send request
+export const SEND_CHUNK_SIZE = 100
+// Ticket errors that are worth sending again; anything else is permanent
+const TRANSIENT_ERRORS = ['MessageRateExceeded', 'RequestFailed']
+export const MAX_ATTEMPTS = 5
+// Doubles after each attempt: 1, 2, 4, 8 minutes
+const RETRY_BASE_MS = 60 * 1000
+
+export interface ExpoMessage {
+  to: string;
+  title: string;
+  body: string;
+  data?: any;
+  sound?: string;
+  badge?: number;
+  channelId?: string;
+  categoryId?: string;
+}
+
+// Push tickets and receipts share this shape; only tickets carry an id
+export interface ExpoTicket {
+  status: 'ok' | 'error';
+  id?: string;
+  message?: string;
+  details?: { error?: string; [key: string]: unknown };
+}
+
+// One message for one device
+export interface PushDelivery {
+  userId: string | null;
+  deviceId: string;
+  message: ExpoMessage;
+}
+
+const headers = {
+  'Accept': 'application/json',
+  'Accept-encoding': 'gzip, deflate',
+  'Content-Type': 'application/json',
+}
+
+const postToExpo = async (path: string, body: unknown): Promise<{ ok: boolean; transient: boolean; error?: string; result?: any }> => {
+  let response: Response
+  try {
+    response = await fetch(`${EXPO_PUSH_API_URL}${path}`, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify(body),
+    })
+  } catch (error) {
+    return { ok: false, transient: true, error: error.message }
+  }
+
+  const result = await response.json().catch(() => null)
+  if (!response.ok || !result?.data) {
+    return {
+      ok: false,
+      // Too many requests or an Expo outage; a malformed request won't get better
+      transient: response.status === 429 || response.status >= 500,
+      error: result?.errors?.[0]?.message || `Expo Push API responded with ${response.status}`,
+      result,
+    }
+  }
+  return { ok: true, transient: false, result }
+}
+
+// Returns one ticket per message, in order. When a whole request fails its messages
+// get error tickets, so they are retried or recorded like any other failure
+export const sendPushMessages = async (messages: ExpoMessage[]): Promise<ExpoTicket[]> => {
+  const tickets: ExpoTicket[] = []
+  for (let start = 0; start < messages.length; start += SEND_CHUNK_SIZE) {
+    const chunk = messages.slice(start, start + SEND_CHUNK_SIZE)
+    const response = await postToExpo('/send', chunk)
+
+    if (response.ok && Array.isArray(response.result.data) && response.result.data.length === chunk.length) {
+      tickets.push(...response.result.data)
+      continue
+    }
+
+    console.error('Expo push request failed:', response.error, response.result)
+    const code = response.transient ? 'RequestFailed' : response.result?.errors?.[0]?.code || 'RequestRejected'
+    chunk.forEach(() => tickets.push({
+      status: 'error',
+      message: response.error || 'Expo Push API returned an unexpected response',
+      details: { error: code },
+    }))
+  }
+  return tickets
+}
+
+// Receipts by ticket id; tickets without a receipt yet are left out
+export const fetchPushReceipts = async (ticketIds: string[]): Promise<Record<string, ExpoTicket>> => {
+  if (ticketIds.length === 0) {
+    return {}
+  }
+
+  const response = await postToExpo('/getReceipts', { ids: ticketIds })
+  if (!response.ok) {
+    throw new Error(`Failed to fetch push receipts: ${response.error}`)
+  }
+  return response.result.data
+}
+
+// The push_tickets columns a ticket or receipt leads to. `unregistered` means
+// the token is dead and its device should be deactivated
+export const describeTicket = (ticket: ExpoTicket, attempts: number, now: Date) => {
+  if (ticket.status === 'ok') {
+    return {
+      unregistered: false,
+      row: {
+        ticket_id: ticket.id ?? null,
+        status: ticket.id ? 'pending' : 'delivered',
+        error: null,
+        error_message: null,
+        attempts,
+        retry_after: null,
+        sent_at: now.toISOString(),
+      },
+    }
+  }
+
+  const error = ticket.details?.error || 'Unknown'
+  const retry = TRANSIENT_ERRORS.includes(error) && attempts < MAX_ATTEMPTS
+  return {
+    unregistered: error === 'DeviceNotRegistered',
+    row: {
+      ticket_id: null,
+      status: retry ? 'retry' : 'failed',
+      error,
+      error_message: ticket.message || null,
+      attempts,
+      retry_after: retry ? new Date(now.getTime() + RETRY_BASE_MS * 2 ** (attempts - 1)).toISOString() : null,
+      sent_at: now.toISOString(),
+    },
+  }
+}
+
+// Expo tells us the token will never work again, e.g. the app was uninstalled
+export const deactivatePushTokens = async (supabaseClient: any, pushTokens: string[]): Promise<void> => {
+  if (pushTokens.length === 0) {
+    return
+  }
+
+  const { error } = await supabaseClient
+    .from('devices')
+    .update({ is_active: false })
+    .in('push_token', [...new Set(pushTokens)])
+
+  if (error) {
+    throw new Error(`Failed to deactivate devices: ${error.message}`)
+  }
+  console.log('Deactivated unregistered push tokens:', pushTokens.length)
+}
+
+// Sends new messages and records a push_tickets row for each
+export const sendAndRecord = async (supabaseClient: any, deliveries: PushDelivery[], now: Date): Promise<ExpoTicket[]> => {
+  if (deliveries.length === 0) {
+    return []
+  }
+
+  const tickets = await sendPushMessages(deliveries.map(delivery => delivery.message))
+  const unregistered: string[] = []
+  const rows = deliveries.map((delivery, index) => {
+    const { row, unregistered: isUnregistered } = describeTicket(tickets[index], 1, now)
+    if (isUnregistered) {
+      unregistered.push(delivery.message.to)
+    }
+    return {
+      ...row,
+      user_id: delivery.userId,
+      device_id: delivery.deviceId,
+      push_token: delivery.message.to,
+      message: delivery.message,
+    }
+  })
+
+  const { error } = await supabaseClient.from('push_tickets').insert(rows)
+  if (error) {
+    // The messages are already on their way; losing the tickets only loses tracking
+    console.error('Failed to record push tickets:', error)
+  }
+  await deactivatePushTokens(supabaseClient, unregistered)
+
+  return tickets
+}
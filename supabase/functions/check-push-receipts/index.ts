@@ -0,0 +1,249 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { deactivatePushTokens, describeTicket, fetchPushReceipts, PushDelivery, sendPushMessages } from '../_shared/expoPush.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+// Expo suggests waiting before asking for receipts, and keeps them for a day
+const RECEIPT_DELAY_MS = 15 * 60 * 1000
+const RECEIPT_EXPIRY_MS = 24 * 60 * 60 * 1000
+// The receipts endpoint takes at most 1000 ids per request
+const RECEIPT_BATCH_SIZE = 1000
+const RETRY_BATCH_SIZE = 100
+
+interface PushTicketRow {
+  id: string;
+  ticket_id: string | null;
+  user_id: string | null;
+  device_id: string;
+  push_token: string;
+  message: any;
+  attempts: number;
+  sent_at: string;
+}
+
+// Fetches receipts for tickets old enough to have one and records the outcome
+const checkReceipts = async (supabaseClient: any, now: Date) => {
+  const { data: rows, error: fetchError } = await supabaseClient
+    .from('push_tickets')
+    .select('*')
+    .eq('status', 'pending')
+    .lte('sent_at', new Date(now.getTime() - RECEIPT_DELAY_MS).toISOString())
+    .order('sent_at', { ascending: true })
+    .limit(RECEIPT_BATCH_SIZE)
+
+  if (fetchError) {
+    throw new Error(`Failed to fetch push tickets: ${fetchError.message}`)
+  }
+
+  const tickets: PushTicketRow[] = rows || []
+  const receipts = await fetchPushReceipts(tickets.map(ticket => ticket.ticket_id!))
+
+  const deliveredIds: string[] = []
+  const expiredIds: string[] = []
+  const unregistered: string[] = []
+  let failedCount = 0
+  let retryCount = 0
+
+  for (const ticket of tickets) {
+    const receipt = receipts[ticket.ticket_id!]
+    if (!receipt) {
+      // Not ready yet, or Expo has already dropped it
+      if (now.getTime() - new Date(ticket.sent_at).getTime() > RECEIPT_EXPIRY_MS) {
+        expiredIds.push(ticket.id)
+      }
+      continue
+    }
+
+    if (receipt.status === 'ok') {
+      deliveredIds.push(ticket.id)
+      continue
+    }
+
+    const { row, unregistered: isUnregistered } = describeTicket(receipt, ticket.attempts, now)
+    if (isUnregistered) {
+      unregistered.push(ticket.push_token)
+    }
+    if (row.status === 'retry') {
+      retryCount++
+    } else {
+      failedCount++
+    }
+
+    // Keep the ticket id and sent_at; the message was not sent again
+    const { ticket_id: _ticketId, sent_at: _sentAt, ...update } = row
+    await supabaseClient
+      .from('push_tickets')
+      .update({ ...update, checked_at: now.toISOString() })
+      .eq('id', ticket.id)
+  }
+
+  if (deliveredIds.length > 0) {
+    await supabaseClient
+      .from('push_tickets')
+      .update({ status: 'delivered', checked_at: now.toISOString() })
+      .in('id', deliveredIds)
+  }
+  if (expiredIds.length > 0) {
+    await supabaseClient
+      .from('push_tickets')
+      .update({ status: 'expired', checked_at: now.toISOString() })
+      .in('id', expiredIds)
+  }
+  await deactivatePushTokens(supabaseClient, unregistered)
+
+  return {
+    checkedCount: tickets.length,
+    deliveredCount: deliveredIds.length,
+    failedCount,
+    retryCount,
+    expiredCount: expiredIds.length,
+    deactivatedCount: new Set(unregistered).size,
+  }
+}
+
+// Sends again the messages that failed for a transient reason and are due
+const retryFailed = async (supabaseClient: any, now: Date) => {
+  // Claimed tickets are skipped by overlapping runs (migration 006)
+  const { data: rows, error: fetchError } = await supabaseClient
+    .rpc('claim_push_ticket_retries', { p_now: now.toISOString(), p_limit: RETRY_BATCH_SIZE })
+
+  if (fetchError) {
+    throw new Error(`Failed to fetch push tickets: ${fetchError.message}`)
+  }
+
+  const tickets: PushTicketRow[] = rows || []
+  const tokens = [...new Set(tickets.map(ticket => ticket.push_token))]
+  const { data: devices, error: devicesError } = tokens.length > 0
+    ? await supabaseClient
+      .from('devices')
+      .select('push_token, user_id, device_id')
+      .eq('is_active', true)
+      .in('push_token', tokens)
+    : { data: [], error: null }
+
+  if (devicesError) {
+    throw new Error(`Failed to fetch devices: ${devicesError.message}`)
+  }
+
+  // A device that logged out or switched user must not get the old user's message
+  const due: PushTicketRow[] = []
+  const staleIds: string[] = []
+  for (const ticket of tickets) {
+    const device = (devices || []).find((candidate: any) =>
+      candidate.push_token === ticket.push_token && candidate.user_id === ticket.user_id)
+    if (device) {
+      due.push(ticket)
+    } else {
+      staleIds.push(ticket.id)
+    }
+  }
+
+  if (staleIds.length > 0) {
+    await supabaseClient
+      .from('push_tickets')
+      .update({ status: 'failed', error: 'DeviceInactive', error_message: 'Device is no longer active', retry_after: null, claimed_at: null })
+      .in('id', staleIds)
+  }
+
+  const deliveries: PushDelivery[] = due.map(ticket => ({
+    userId: ticket.user_id,
+    deviceId: ticket.device_id,
+    message: ticket.message,
+  }))
+  const results = await sendPushMessages(deliveries.map(delivery => delivery.message))
+
+  const unregistered: string[] = []
+  let acceptedCount = 0
+  for (const [index, ticket] of due.entries()) {
+    const { row, unregistered: isUnregistered } = describeTicket(results[index], ticket.attempts + 1, now)
+    if (isUnregistered) {
+      unregistered.push(ticket.push_token)
+    }
+    if (row.status === 'pending' || row.status === 'delivered') {
+      acceptedCount++
+    }
+    await supabaseClient
+      .from('push_tickets')
+      .update({ ...row, claimed_at: null })
+      .eq('id', ticket.id)
+  }
+  await deactivatePushTokens(supabaseClient, unregistered)
+
+  return {
+    resentCount: due.length,
+    resentAcceptedCount: acceptedCount,
+    abandonedCount: staleIds.length,
+  }
+}
+
+// Run from a cron job, e.g. every 15 minutes
+serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders })
+  }
+
+  try {
+    // Initialize Supabase client with service role key to bypass RLS
+    const supabaseClient = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '',
+      {
+        auth: {
+          autoRefreshToken: false,
+          persistSession: false
+        }
+      }
+    )
+
+    const now = new Date()
+    // Retries don't depend on receipts, so an Expo or database failure there
+    // must not hold them back
+    let receipts: Awaited<ReturnType<typeof checkReceipts>> | null = null
+    let receiptsError: string | null = null
+    try {
+      receipts = await checkReceipts(supabaseClient, now)
+    } catch (error) {
+      console.error('Failed to check push receipts:', error)
+      receiptsError = error.message
+    }
+    const retries = await retryFailed(supabaseClient, now)
+
+    console.log('Push receipts checked:', { ...receipts, ...retries, receiptsError })
+
+    const checked = receipts
+      ? `Checked ${receipts.checkedCount} push receipts`
+      : 'Could not check push receipts'
+    return new Response(
+      JSON.stringify({
+        success: !receiptsError,
+        message: `${checked} and resent ${retries.resentCount} notifications`,
+        ...receipts,
+        ...retries,
+        ...(receiptsError ? { error: 'Failed to check push receipts', details: receiptsError } : {})
+      }),
+      {
+        status: receiptsError ? 500 : 200,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      }
+    )
+
+  } catch (error) {
+    console.error('Function error:', error)
+    return new Response(
+      JSON.stringify({
+        success: false,
+        error: 'Internal server error',
+        details: error.message
+      }),
+      {
+        status: 500,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      }
+    )
+  }
+})
@@ -0,0 +1,302 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+interface NotificationPreferencesData {
+  appointments_enabled?: boolean;
+  reminders_enabled?: boolean;
+  prayer_requests_enabled?: boolean;
+  announcements_enabled?: boolean;
+  system_enabled?: boolean;
+  quiet_hours_enabled?: boolean;
+  quiet_hours_start?: string;
+  quiet_hours_end?: string;
+  time_zone?: string;
+  muted_device_ids?: string[];
+}
+
+const BOOLEAN_FIELDS = [
+  'appointments_enabled',
+  'reminders_enabled',
+  'prayer_requests_enabled',
+  'announcements_enabled',
+  'system_enabled',
+  'quiet_hours_enabled',
+] as const
+
+const defaultPreferences = {
+  appointments_enabled: true,
+  reminders_enabled: true,
+  prayer_requests_enabled: true,
+  announcements_enabled: true,
+  system_enabled: true,
+  quiet_hours_enabled: false,
+  quiet_hours_start: '22:00',
+  quiet_hours_end: '07:00',
+  time_zone: 'UTC',
+  muted_device_ids: [] as string[],
+}
+
+const isValidTimeZone = (timeZone: string): boolean => {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone })
+    return true
+  } catch {
+    return false
+  }
+}
+
+// Returns the first problem with the body, or null when it can be saved
+const validate = (body: NotificationPreferencesData): string | null => {
+  for (const field of BOOLEAN_FIELDS) {
+    if (body[field] !== undefined && typeof body[field] !== 'boolean') {
+      return `${field} must be a boolean`
+    }
+  }
+  for (const field of ['quiet_hours_start', 'quiet_hours_end'] as const) {
+    if (body[field] !== undefined && !/^([01]\d|2[0-3]):[0-5]\d(:[0-5]\d)?$/.test(body[field]!)) {
+      return `${field} must be a time like 22:00`
+    }
+  }
+  if (body.time_zone !== undefined && (typeof body.time_zone !== 'string' || !isValidTimeZone(body.time_zone))) {
+    return 'time_zone must be an IANA time zone such as America/Sao_Paulo'
+  }
+  if (body.muted_device_ids !== undefined &&
+    (!Array.isArray(body.muted_device_ids) || body.muted_device_ids.some(id => typeof id !== 'string'))) {
+    return 'muted_device_ids must be a list of device ids'
+  }
+  return null
+}
+
+serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders })
+  }
+
+  try {
+    // Initialize Supabase client with service role key to bypass RLS
+    const supabaseClient = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '',
+      {
+        auth: {
+          autoRefreshToken: false,
+          persistSession: false
+        }
+      }
+    )
+
+    // Get user from JWT token if available
+    let userId: string | null = null
+    let userEmail: string | null = null
+
+    const authHeader = req.headers.get('Authorization')
+    if (authHeader && authHeader.startsWith('Bearer ')) {
+      try {
+        // Verify the caller's own token; the anon key resolves to no user
+        const token = authHeader.replace('Bearer ', '')
+        const { data: { user }, error: userError } = await supabaseClient.auth.getUser(token)
+        if (user && !userError) {
+          userId = user.id
+          userEmail = user.email || null
+          console.log('Authenticated user found:', user.id)
+        }
+      } catch (error) {
+        console.log('JWT token invalid or expired:', error.message)
+      }
+    }
+
+    // Preferences belong to a signed-in user
+    if (!userId) {
+      return new Response(
+        JSON.stringify({
+          success: false,
+          error: 'Authentication required to manage notification preferences'
+        }),
+        {
+          status: 401,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        }
+      )
+    }
+
+    const { data: existingPreferences, error: fetchError } = await supabaseClient
+      .from('notification_preferences')
+      .select('*')
+      .eq('user_id', userId)
+      .single()
+
+    if (fetchError && fetchError.code !== 'PGRST116') { // PGRST116 = no rows found
+      console.error('Database error:', fetchError)
+      return new Response(
+        JSON.stringify({
+          success: false,
+          error: 'Failed to fetch notification preferences',
+          details: fetchError.message
+        }),
+        {
+          status: 500,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        }
+      )
+    }
+
+    if (req.method === 'GET') {
+      // Return default preferences if none found
+      return new Response(
+        JSON.stringify({
+          success: true,
+          data: existingPreferences || {
+            id: null,
+            user_id: userId,
+            user_email: userEmail,
+            ...defaultPreferences,
+            created_at: null,
+            updated_at: null
+          }
+        }),
+        {
+          status: 200,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        }
+      )
+    }
+
+    if (req.method === 'POST' || req.method === 'PUT') {
+      // Fields left out keep their current value
+      const body: NotificationPreferencesData = await req.json()
+
+      const validationError = validate(body)
+      if (validationError) {
+        return new Response(
+          JSON.stringify({
+            success: false,
+            error: validationError
+          }),
+          {
+            status: 400,
+            headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+          }
+        )
+      }
+
+      const current = existingPreferences || defaultPreferences
+      const preferencesData = {
+        user_id: userId,
+        user_email: userEmail,
+        appointments_enabled: body.appointments_enabled ?? current.appointments_enabled,
+        reminders_enabled: body.reminders_enabled ?? current.reminders_enabled,
+        prayer_requests_enabled: body.prayer_requests_enabled ?? current.prayer_requests_enabled,
+        announcements_enabled: body.announcements_enabled ?? current.announcements_enabled,
+        system_enabled: body.system_enabled ?? current.system_enabled,
+        quiet_hours_enabled: body.quiet_hours_enabled ?? current.quiet_hours_enabled,
+        quiet_hours_start: body.quiet_hours_start ?? current.quiet_hours_start,
+        quiet_hours_end: body.quiet_hours_end ?? current.quiet_hours_end,
+        time_zone: body.time_zone ?? current.time_zone,
+        muted_device_ids: body.muted_device_ids ?? current.muted_device_ids,
+      }
+
+      const { data: result, error } = await supabaseClient
+        .from('notification_preferences')
+        .upsert(preferencesData, { onConflict: 'user_id' })
+        .select()
+        .single()
+
+      if (error) {
+        console.error('Database error:', error)
+        return new Response(
+          JSON.stringify({
+            success: false,
+            error: 'Failed to save notification preferences',
+            details: error.message
+          }),
+          {
+            status: 500,
+            headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+          }
+        )
+      }
+
+      console.log(`Notification preferences ${existingPreferences ? 'updated' : 'created'} for user: ${userId}`)
+
+      return new Response(
+        JSON.stringify({
+          success: true,
+          message: 'Notification preferences saved successfully',
+          data: result
+        }),
+        {
+          status: 200,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        }
+      )
+    }
+
+    if (req.method === 'DELETE') {
+      // Back to the defaults: every notification, no quiet hours
+      const { error: deleteError } = await supabaseClient
+        .from('notification_preferences')
+        .delete()
+        .eq('user_id', userId)
+
+      if (deleteError) {
+        console.error('Database error:', deleteError)
+        return new Response(
+          JSON.stringify({
+            success: false,
+            error: 'Failed to delete notification preferences',
+            details: deleteError.message
+          }),
+          {
+            status: 500,
+            headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+          }
+        )
+      }
+
+      console.log(`Notification preferences deleted for user: ${userId}`)
+
+      return new Response(
+        JSON.stringify({
+          success: true,
+          message: 'Notification preferences deleted successfully'
+        }),
+        {
+          status: 200,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        }
+      )
+    }
+
+    // Method not allowed
+    return new Response(
+      JSON.stringify({
+        success: false,
+        error: 'Method not allowed'
+      }),
+      {
+        status: 405,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      }
+    )
+
+  } catch (error) {
+    console.error('Function error:', error)
+    return new Response(
+      JSON.stringify({
+        success: false,
+        error: 'Internal server error',
+        details: error.message
+      }),
+      {
+        status: 500,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      }
+    )
+  }
+})
@@ -59,6 +59,10 @@ serve(async (req) => {
 
     // Parse request body
     const body: PushTokenData = await req.json()
+
+    if (req.method === 'DELETE') {
+      return await unbindDevice(supabaseClient, body)
+    }
     
     // Validate required fields
     if (!body.token || !body.deviceId || !body.platform) {
@@ -82,7 +86,9 @@ serve(async (req) => {
     const authHeader = req.headers.get('Authorization')
     if (authHeader && authHeader.startsWith('Bearer ')) {
       try {
-        const { data: { user }, error: userError } = await supabaseClient.auth.getUser()
+        // Verify the caller's own token; the anon key resolves to no user
+        const token = authHeader.replace('Bearer ', '')
+        const { data: { user }, error: userError } = await supabaseClient.auth.getUser(token)
         if (user && !userError) {
           userId = user.id
           userEmail = user.email || null
@@ -104,9 +110,10 @@ serve(async (req) => {
       .single()
 
     const now = new Date().toISOString()
+    // The owner comes only from a verified token, never from the request body
     const deviceData: DeviceRecord = {
-      user_id: userId || body.userId || null,
-      user_email: userEmail || body.userEmail || null,
+      user_id: userId,
+      user_email: userEmail,
       push_token: body.token,
       token_type: body.type || 'expo',
       device_id: body.deviceId,
@@ -122,11 +129,12 @@ serve(async (req) => {
     let error
 
     if (existingDevice) {
-      // Update existing device
+      // Update existing device; an anonymous refresh keeps the current owner
+      const { user_id, user_email, ...deviceFields } = deviceData
       const { data, error: updateError } = await supabaseClient
         .from('devices')
         .update({
-          ...deviceData,
+          ...(userId ? deviceData : deviceFields),
           updated_at: now,
         })
         .eq('id', existingDevice.id)
@@ -194,3 +202,70 @@ serve(async (req) => {
     )
   }
 })
+
+// Logout: detach the user from the device but keep it registered for anonymous
+// pushes. Knowing the device's push token is required, not a user session,
+// so the app can do this after its session has been cleared.
+async function unbindDevice(supabaseClient: any, body: PushTokenData): Promise<Response> {
+  if (!body.token || !body.deviceId || !body.platform) {
+    return new Response(
+      JSON.stringify({ 
+        success: false, 
+        error: 'Missing required fields: token, deviceId, platform' 
+      }),
+      { 
+        status: 400, 
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' } 
+      }
+    )
+  }
+
+  let query = supabaseClient
+    .from('devices')
+    .update({
+      user_id: null,
+      user_email: null,
+      updated_at: new Date().toISOString(),
+    })
+    .eq('device_id', body.deviceId)
+    .eq('platform', body.platform)
+    .eq('push_token', body.token)
+
+  // Unbind only the user who logged out. The request may be replayed from the
+  // offline queue after someone else signed in on the same device. Builds that
+  // predate userId here still unbind whoever is bound
+  if (body.userId) {
+    query = query.eq('user_id', body.userId)
+  }
+
+  const { data, error } = await query.select('id')
+
+  if (error) {
+    console.error('Database error:', error)
+    return new Response(
+      JSON.stringify({ 
+        success: false, 
+        error: 'Failed to unbind device',
+        details: error.message 
+      }),
+      { 
+        status: 500, 
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' } 
+      }
+    )
+  }
+
+  console.log(`Device unbound: ${body.deviceId}`)
+
+  return new Response(
+    JSON.stringify({ 
+      success: true, 
+      message: 'Device unbound successfully',
+      unbound: (data?.length ?? 0) > 0
+    }),
+    { 
+      status: 200, 
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' } 
+    }
+  )
+}
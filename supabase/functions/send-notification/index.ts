@@ -1,12 +1,24 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { ExpoTicket, PushDelivery, sendAndRecord } from '../_shared/expoPush.ts';
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
 }
 
+// Android channels the app creates (NOTIFICATION_CHANNELS in pushNotificationService.ts)
+const NOTIFICATION_CHANNELS = ['appointments', 'reminders', 'prayer_requests', 'announcements', 'system']
+// Has sound, unlike 'system', so callers that name no channel still get noticed
+const DEFAULT_CHANNEL = 'appointments'
+// Channel ids older builds send, mapped to the channel that replaced them
+const LEGACY_CHANNELS: Record<string, string> = {
+  pastor_agenda_notifications: DEFAULT_CHANNEL,
+}
+
 interface NotificationData {
+  // Delivers messages held back by quiet hours instead of sending a new one; call from a cron job
+  deliverDeferred?: boolean;
   title: string;
   body: string;
   data?: any;
@@ -17,16 +29,228 @@ interface NotificationData {
   sound?: string;
   badge?: number;
   channelId?: string;
+  categoryId?: string;
 }
 
-interface ExpoMessage {
-  to: string;
-  title: string;
-  body: string;
-  data?: any;
-  sound?: string;
-  badge?: number;
-  channelId?: string;
+interface NotificationPreferences {
+  user_id: string;
+  quiet_hours_enabled: boolean;
+  quiet_hours_start: string;
+  quiet_hours_end: string;
+  time_zone: string;
+  muted_device_ids: string[] | null;
+  [channelEnabled: string]: unknown;
+}
+
+interface Delivery extends PushDelivery {
+  channelId: string;
+  // Set when the delivery comes from deferred_notifications
+  deferredId?: string;
+}
+
+interface DeliveryPlan {
+  send: Delivery[];
+  defer: { delivery: Delivery; sendAfter: Date }[];
+  skipped: Delivery[];
+}
+
+// Deferred messages delivered per call
+const DEFERRED_BATCH_SIZE = 100
+
+const toMinutes = (time: string): number => {
+  const [hours, minutes] = time.split(':').map(Number)
+  return hours * 60 + minutes
+}
+
+// Date and minutes past midnight on the zone's wall clock; throws on an unknown zone
+const getZonedTime = (date: Date, timeZone: string) => {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+  }).formatToParts(date)
+  const get = (type: string) => Number(parts.find(part => part.type === type)?.value)
+  return { year: get('year'), month: get('month'), day: get('day'), minutes: get('hour') * 60 + get('minute') }
+}
+
+// How far the zone's wall clock is ahead of UTC at `date`
+const getZoneOffset = (date: Date, timeZone: string): number => {
+  const { year, month, day, minutes } = getZonedTime(date, timeZone)
+  return Date.UTC(year, month - 1, day, 0, minutes) - Math.floor(date.getTime() / 60000) * 60000
+}
+
+// The instant the zone's clock shows `minutes` past midnight on the given day. The
+// offset is looked up again at the first guess in case the clocks change in between
+const fromZonedTime = (year: number, month: number, day: number, minutes: number, timeZone: string): Date => {
+  const wallClock = Date.UTC(year, month - 1, day, 0, minutes)
+  const guess = wallClock - getZoneOffset(new Date(wallClock), timeZone)
+  return new Date(wallClock - getZoneOffset(new Date(guess), timeZone))
+}
+
+// End of the quiet hours `now` falls in, or null outside them
+const getQuietHoursEnd = (preferences: NotificationPreferences, now: Date): Date | null => {
+  if (!preferences.quiet_hours_enabled) {
+    return null
+  }
+
+  const start = toMinutes(preferences.quiet_hours_start)
+  const end = toMinutes(preferences.quiet_hours_end)
+  if (start === end) {
+    return null
+  }
+
+  const timeZone = preferences.time_zone || 'UTC'
+  let local: ReturnType<typeof getZonedTime>
+  try {
+    local = getZonedTime(now, timeZone)
+  } catch (error) {
+    console.warn('Ignoring quiet hours with invalid time zone:', preferences.time_zone, error.message)
+    return null
+  }
+
+  // 22:00-07:00 wraps past midnight
+  const current = local.minutes
+  const inQuietHours = start < end
+    ? current >= start && current < end
+    : current >= start || current < end
+  if (!inQuietHours) {
+    return null
+  }
+
+  // Computed on the local calendar, so a night the clocks change still ends at `end`
+  const endDay = end > current ? local.day : local.day + 1
+  return fromZonedTime(local.year, local.month, endDay, end, timeZone)
+}
+
+// Drops deliveries to channels the user turned off or devices they muted, and
+// holds back those that fall in their quiet hours. Users without preferences get everything.
+const planDeliveries = async (supabaseClient: any, deliveries: Delivery[], now: Date): Promise<DeliveryPlan> => {
+  const userIds = [...new Set(deliveries.map(delivery => delivery.userId).filter(Boolean))]
+  const preferencesByUser = new Map<string, NotificationPreferences>()
+
+  if (userIds.length > 0) {
+    const { data, error } = await supabaseClient
+      .from('notification_preferences')
+      .select('*')
+      .in('user_id', userIds)
+
+    if (error) {
+      throw new Error(`Failed to fetch notification preferences: ${error.message}`)
+    }
+    (data || []).forEach((preferences: NotificationPreferences) => preferencesByUser.set(preferences.user_id, preferences))
+  }
+
+  const plan: DeliveryPlan = { send: [], defer: [], skipped: [] }
+  for (const delivery of deliveries) {
+    const preferences = delivery.userId ? preferencesByUser.get(delivery.userId) : undefined
+    if (!preferences) {
+      plan.send.push(delivery)
+      continue
+    }
+
+    if (preferences[`${delivery.channelId}_enabled`] === false ||
+      (preferences.muted_device_ids || []).includes(delivery.deviceId)) {
+      plan.skipped.push(delivery)
+      continue
+    }
+
+    const sendAfter = getQuietHoursEnd(preferences, now)
+    if (sendAfter) {
+      plan.defer.push({ delivery, sendAfter })
+    } else {
+      plan.send.push(delivery)
+    }
+  }
+
+  return plan
+}
+
+// Tickets Expo accepted; their receipts are checked later by check-push-receipts
+const countAccepted = (tickets: ExpoTicket[]): number => tickets.filter(ticket => ticket.status === 'ok').length
+
+// Sends deferred messages whose quiet hours are over, re-checking preferences
+// and that the device still belongs to the same user
+const deliverDeferred = async (supabaseClient: any, now: Date): Promise<Response> => {
+  // Claimed rows are skipped by overlapping runs (migration 005)
+  const { data: rows, error: fetchError } = await supabaseClient
+    .rpc('claim_deferred_notifications', { p_now: now.toISOString(), p_limit: DEFERRED_BATCH_SIZE })
+
+  if (fetchError) {
+    throw new Error(`Failed to fetch deferred notifications: ${fetchError.message}`)
+  }
+
+  const deviceIds = [...new Set((rows || []).map((row: any) => row.device_id))]
+  const { data: devices, error: devicesError } = deviceIds.length > 0
+    ? await supabaseClient
+      .from('devices')
+      .select('push_token, user_id, device_id')
+      .eq('is_active', true)
+      .in('device_id', deviceIds)
+    : { data: [], error: null }
+
+  if (devicesError) {
+    throw new Error(`Failed to fetch devices: ${devicesError.message}`)
+  }
+
+  const deliveries: Delivery[] = []
+  const staleIds: string[] = []
+  for (const row of rows || []) {
+    // A device that logged out or switched user must not get the old user's message
+    const device = (devices || []).find((candidate: any) => candidate.device_id === row.device_id && candidate.user_id === row.user_id)
+    if (!device) {
+      staleIds.push(row.id)
+      continue
+    }
+    deliveries.push({
+      userId: row.user_id,
+      deviceId: row.device_id,
+      channelId: row.channel_id,
+      message: { ...row.message, to: device.push_token },
+      deferredId: row.id,
+    })
+  }
+
+  const plan = await planDeliveries(supabaseClient, deliveries, now)
+  const tickets = await sendAndRecord(supabaseClient, plan.send, now)
+
+  const doneIds = [...staleIds, ...[...plan.send, ...plan.skipped].map(delivery => delivery.deferredId!)]
+  if (doneIds.length > 0) {
+    await supabaseClient.from('deferred_notifications').delete().in('id', doneIds)
+  }
+  // Quiet hours were changed since the message was held back
+  for (const { delivery, sendAfter } of plan.defer) {
+    await supabaseClient
+      .from('deferred_notifications')
+      .update({ send_after: sendAfter.toISOString(), claimed_at: null })
+      .eq('id', delivery.deferredId)
+  }
+
+  console.log('Deferred notifications delivered:', {
+    sent: plan.send.length,
+    skipped: plan.skipped.length + staleIds.length,
+    deferred: plan.defer.length,
+    accepted: countAccepted(tickets)
+  })
+
+  return new Response(
+    JSON.stringify({ 
+      success: true, 
+      message: `Delivered ${plan.send.length} deferred notifications`,
+      deviceCount: plan.send.length,
+      skippedCount: plan.skipped.length + staleIds.length,
+      deferredCount: plan.defer.length,
+      acceptedCount: countAccepted(tickets),
+      tickets
+    }),
+    { 
+      status: 200, 
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' } 
+    }
+  )
 }
 
 serve(async (req) => {
@@ -50,6 +274,11 @@ serve(async (req) => {
 
     // Parse request body
     const body: NotificationData = await req.json()
+    const now = new Date()
+
+    if (body.deliverDeferred) {
+      return await deliverDeferred(supabaseClient, now)
+    }
     
     // Validate required fields
     if (!body.title || !body.body) {
@@ -65,6 +294,21 @@ serve(async (req) => {
       )
     }
 
+    // Android drops messages for channels the app never created
+    if (body.channelId && !NOTIFICATION_CHANNELS.includes(body.channelId) && !LEGACY_CHANNELS[body.channelId]) {
+      return new Response(
+        JSON.stringify({ 
+          success: false, 
+          error: `Unknown channelId: ${body.channelId}`,
+          details: { channels: NOTIFICATION_CHANNELS }
+        }),
+        { 
+          status: 400, 
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' } 
+        }
+      )
+    }
+
     // Build query to get devices
     let query = supabaseClient
       .from('devices')
@@ -113,59 +357,92 @@ serve(async (req) => {
     }
 
     // Prepare messages for Expo Push API
-    const messages: ExpoMessage[] = devices.map(device => ({
-      to: device.push_token,
-      title: body.title,
-      body: body.body,
-      data: {
-        ...body.data,
-        userId: device.user_id,
-        userEmail: device.user_email,
-        deviceId: device.device_id,
-        platform: device.platform,
+    const channelId = (body.channelId && LEGACY_CHANNELS[body.channelId]) || body.channelId || DEFAULT_CHANNEL
+    const deliveries: Delivery[] = devices.map(device => ({
+      userId: device.user_id,
+      deviceId: device.device_id,
+      channelId,
+      message: {
+        to: device.push_token,
+        title: body.title,
+        body: body.body,
+        data: {
+          ...body.data,
+          userId: device.user_id,
+          userEmail: device.user_email,
+          deviceId: device.device_id,
+          platform: device.platform,
+        },
+        sound: body.sound || 'default',
+        badge: body.badge,
+        channelId,
+        categoryId: body.categoryId,
       },
-      sound: body.sound || 'default',
-      badge: body.badge,
-      channelId: body.channelId || 'pastor_agenda_notifications',
     }))
 
-    // Send notifications via Expo Push API
-    const expoPushUrl = 'https://exp.host/--/api/v2/push/send'
-    const expoResponse = await fetch(expoPushUrl, {
-      method: 'POST',
-      headers: {
-        'Accept': 'application/json',
-        'Accept-encoding': 'gzip, deflate',
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify(messages),
-    })
+    // Honour each user's channel opt-outs, muted devices and quiet hours
+    const plan = await planDeliveries(supabaseClient, deliveries, now)
 
-    const expoResult = await expoResponse.json()
+    if (plan.defer.length > 0) {
+      const { error: deferError } = await supabaseClient
+        .from('deferred_notifications')
+        .insert(plan.defer.map(({ delivery, sendAfter }) => ({
+          user_id: delivery.userId,
+          device_id: delivery.deviceId,
+          channel_id: delivery.channelId,
+          message: delivery.message,
+          send_after: sendAfter.toISOString(),
+        })))
+
+      if (deferError) {
+        console.error('Database error:', deferError)
+        return new Response(
+          JSON.stringify({ 
+            success: false, 
+            error: 'Failed to defer notifications',
+            details: deferError.message 
+          }),
+          { 
+            status: 500, 
+            headers: { ...corsHeaders, 'Content-Type': 'application/json' } 
+          }
+        )
+      }
+    }
+
+    // Records a push ticket per message and deactivates tokens Expo rejects outright
+    const tickets = await sendAndRecord(supabaseClient, plan.send, now)
 
     // Log the notification attempt
-    console.log(`Notification sent to ${devices.length} devices:`, {
+    console.log(`Notification sent to ${plan.send.length} devices:`, {
       title: body.title,
       body: body.body,
       userId: body.userId,
       userEmail: body.userEmail,
-      deviceCount: devices.length,
-      expoResult
+      deviceCount: plan.send.length,
+      deferredCount: plan.defer.length,
+      skippedCount: plan.skipped.length,
+      acceptedCount: countAccepted(tickets)
     })
 
-    // Update last_seen for all devices
-    const deviceIds = devices.map(d => d.device_id)
-    await supabaseClient
-      .from('devices')
-      .update({ last_seen: new Date().toISOString() })
-      .in('device_id', deviceIds)
+    // Update last_seen for the devices that were sent to
+    const deviceIds = plan.send.map(delivery => delivery.deviceId)
+    if (deviceIds.length > 0) {
+      await supabaseClient
+        .from('devices')
+        .update({ last_seen: now.toISOString() })
+        .in('device_id', deviceIds)
+    }
 
     return new Response(
       JSON.stringify({ 
         success: true, 
-        message: `Notification sent to ${devices.length} devices`,
-        deviceCount: devices.length,
-        expoResult
+        message: `Notification sent to ${plan.send.length} devices`,
+        deviceCount: plan.send.length,
+        deferredCount: plan.defer.length,
+        skippedCount: plan.skipped.length,
+        acceptedCount: countAccepted(tickets),
+        tickets
       }),
       { 
         status: 200, 
@@ -47,7 +47,9 @@ serve(async (req) => {
     const authHeader = req.headers.get('Authorization')
     if (authHeader && authHeader.startsWith('Bearer ')) {
       try {
-        const { data: { user }, error: userError } = await supabaseClient.auth.getUser()
+        // Verify the caller's own token; the anon key resolves to no user
+        const token = authHeader.replace('Bearer ', '')
+        const { data: { user }, error: userError } = await supabaseClient.auth.getUser(token)
         if (user && !userError) {
           userId = user.id
           userEmail = user.email || null
@@ -149,8 +151,8 @@ serve(async (req) => {
 
       // Prepare settings data
       const settingsData = {
-        user_id: userId || body.user_id || null,
-        user_email: userEmail || body.user_email || null,
+        user_id: userId,
+        user_email: userEmail,
         sharing_enabled: body.sharing_enabled ?? true,
         share_sermons: body.share_sermons ?? true,
         share_events: body.share_events ?? true,
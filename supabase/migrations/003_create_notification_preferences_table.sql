@@ -0,0 +1,79 @@
+-- Create notification_preferences table
+-- One row per user; users without a row get every notification
+CREATE TABLE IF NOT EXISTS notification_preferences (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID UNIQUE REFERENCES auth.users(id) ON DELETE CASCADE,
+  user_email TEXT,
+  -- Opt-in per notification channel (see NOTIFICATION_CHANNELS in the app)
+  appointments_enabled BOOLEAN DEFAULT true,
+  reminders_enabled BOOLEAN DEFAULT true,
+  prayer_requests_enabled BOOLEAN DEFAULT true,
+  announcements_enabled BOOLEAN DEFAULT true,
+  system_enabled BOOLEAN DEFAULT true,
+  -- Messages sent during quiet hours are held until they end
+  quiet_hours_enabled BOOLEAN DEFAULT false,
+  quiet_hours_start TIME DEFAULT '22:00',
+  quiet_hours_end TIME DEFAULT '07:00',
+  -- IANA zone the quiet hours are in, e.g. 'America/Sao_Paulo'
+  time_zone TEXT DEFAULT 'UTC',
+  -- devices.device_id values that receive nothing
+  muted_device_ids TEXT[] DEFAULT '{}',
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Create indexes for better performance
+CREATE INDEX IF NOT EXISTS idx_notification_preferences_user_email ON notification_preferences(user_email);
+
+-- Enable Row Level Security
+ALTER TABLE notification_preferences ENABLE ROW LEVEL SECURITY;
+
+-- Create RLS policies
+-- Users can view their own notification preferences
+CREATE POLICY "Users can view own notification preferences" ON notification_preferences
+  FOR SELECT USING (auth.uid() = user_id);
+
+-- Users can insert their own notification preferences
+CREATE POLICY "Users can insert own notification preferences" ON notification_preferences
+  FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+-- Users can update their own notification preferences
+CREATE POLICY "Users can update own notification preferences" ON notification_preferences
+  FOR UPDATE USING (auth.uid() = user_id) WITH CHECK (auth.uid() = user_id);
+
+-- Users can delete their own notification preferences
+CREATE POLICY "Users can delete own notification preferences" ON notification_preferences
+  FOR DELETE USING (auth.uid() = user_id);
+
+-- Service role can do everything (for Edge Functions)
+CREATE POLICY "Service role full access" ON notification_preferences
+  FOR ALL USING (auth.role() = 'service_role');
+
+-- Create trigger to automatically update updated_at
+CREATE TRIGGER update_notification_preferences_updated_at
+  BEFORE UPDATE ON notification_preferences
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- Create deferred_notifications table
+-- Push messages held back by quiet hours; send-notification delivers them
+-- when called with { "deliverDeferred": true }, e.g. every few minutes from a cron job
+CREATE TABLE IF NOT EXISTS deferred_notifications (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE,
+  device_id TEXT NOT NULL,
+  channel_id TEXT NOT NULL,
+  -- The Expo push message, ready to send
+  message JSONB NOT NULL,
+  send_after TIMESTAMP WITH TIME ZONE NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_deferred_notifications_send_after ON deferred_notifications(send_after);
+CREATE INDEX IF NOT EXISTS idx_deferred_notifications_user_id ON deferred_notifications(user_id);
+
+-- Only Edge Functions touch deferred messages
+ALTER TABLE deferred_notifications ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Service role full access" ON deferred_notifications
+  FOR ALL USING (auth.role() = 'service_role');
@@ -0,0 +1,47 @@
+-- Create push_tickets table
+-- One row per push message handed to Expo. send-notification records the ticket,
+-- check-push-receipts later fetches its receipt, deactivates devices Expo reports
+-- as unregistered and resends messages that failed for a transient reason
+CREATE TABLE IF NOT EXISTS push_tickets (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  -- Expo ticket id; null when the message was rejected before a ticket was issued
+  ticket_id TEXT UNIQUE,
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE,
+  device_id TEXT NOT NULL,
+  push_token TEXT NOT NULL,
+  -- The Expo push message, kept so it can be resent
+  message JSONB NOT NULL,
+  -- pending: waiting for a receipt, delivered: Expo handed it to Apple/Google,
+  -- retry: failed for a transient reason and will be resent, failed: given up,
+  -- expired: no receipt arrived before Expo dropped it
+  status TEXT NOT NULL DEFAULT 'pending'
+    CHECK (status IN ('pending', 'delivered', 'retry', 'failed', 'expired')),
+  -- Expo error code such as DeviceNotRegistered or MessageRateExceeded
+  error TEXT,
+  error_message TEXT,
+  attempts INTEGER NOT NULL DEFAULT 1,
+  retry_after TIMESTAMP WITH TIME ZONE,
+  -- When the current ticket was issued; receipts are fetched some minutes later
+  sent_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  checked_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Create indexes for better performance
+CREATE INDEX IF NOT EXISTS idx_push_tickets_status_sent_at ON push_tickets(status, sent_at);
+CREATE INDEX IF NOT EXISTS idx_push_tickets_status_retry_after ON push_tickets(status, retry_after);
+CREATE INDEX IF NOT EXISTS idx_push_tickets_device_id ON push_tickets(device_id);
+CREATE INDEX IF NOT EXISTS idx_push_tickets_user_id ON push_tickets(user_id);
+
+-- Only Edge Functions touch push tickets
+ALTER TABLE push_tickets ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Service role full access" ON push_tickets
+  FOR ALL USING (auth.role() = 'service_role');
+
+-- Create trigger to automatically update updated_at
+CREATE TRIGGER update_push_tickets_updated_at
+  BEFORE UPDATE ON push_tickets
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
@@ -0,0 +1,24 @@
+-- Let send-notification claim deferred messages before sending them
+-- Overlapping deliverDeferred runs skip rows another run has claimed, so a message
+-- is sent once. A claim lapses after a few minutes, so rows a crashed run left
+-- behind are delivered by a later one
+ALTER TABLE deferred_notifications ADD COLUMN IF NOT EXISTS claimed_at TIMESTAMP WITH TIME ZONE;
+
+-- Claims up to p_limit due rows that nobody holds and returns them
+CREATE OR REPLACE FUNCTION claim_deferred_notifications(p_now TIMESTAMP WITH TIME ZONE, p_limit INTEGER)
+RETURNS SETOF deferred_notifications AS $$
+  UPDATE deferred_notifications
+  SET claimed_at = p_now
+  WHERE id IN (
+    SELECT id FROM deferred_notifications
+    WHERE send_after <= p_now
+      AND (claimed_at IS NULL OR claimed_at < p_now - INTERVAL '5 minutes')
+    ORDER BY send_after
+    LIMIT p_limit
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING *;
+$$ language 'sql';
+
+-- Only Edge Functions deliver deferred messages
+REVOKE EXECUTE ON FUNCTION claim_deferred_notifications(TIMESTAMP WITH TIME ZONE, INTEGER) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,25 @@
+-- Let check-push-receipts claim due retries before resending them
+-- Overlapping runs skip tickets another run has claimed, so a message is resent
+-- once. Like deferred notifications (migration 005), a claim lapses after a few
+-- minutes, so tickets a crashed run left behind are retried by a later one
+ALTER TABLE push_tickets ADD COLUMN IF NOT EXISTS claimed_at TIMESTAMP WITH TIME ZONE;
+
+-- Claims up to p_limit due retries that nobody holds and returns them
+CREATE OR REPLACE FUNCTION claim_push_ticket_retries(p_now TIMESTAMP WITH TIME ZONE, p_limit INTEGER)
+RETURNS SETOF push_tickets AS $$
+  UPDATE push_tickets
+  SET claimed_at = p_now
+  WHERE id IN (
+    SELECT id FROM push_tickets
+    WHERE status = 'retry'
+      AND retry_after <= p_now
+      AND (claimed_at IS NULL OR claimed_at < p_now - INTERVAL '5 minutes')
+    ORDER BY retry_after
+    LIMIT p_limit
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING *;
+$$ language 'sql';
+
+-- Only Edge Functions resend push messages
+REVOKE EXECUTE ON FUNCTION claim_push_ticket_retries(TIMESTAMP WITH TIME ZONE, INTEGER) FROM PUBLIC, anon, authenticated;